@@ -3,84 +3,541 @@
 import { useCallback, useDeferredValue, useMemo, useRef, useState } from "react"
 import { Plus, Trash2 } from "lucide-react"
 
+import { AccountHoldings } from "@/components/account-holdings"
+import { ExchangeRatePanel } from "@/components/exchange-rate-panel"
+import { ImportPreview } from "@/components/import-preview"
+import { LotPicker } from "@/components/lot-picker"
+import { OpeningBalanceTable } from "@/components/opening-balance-table"
+import { PriceHistoryPanel } from "@/components/price-history-panel"
+import { SellSimulator } from "@/components/sell-simulator"
+import { TaxProfileEditor } from "@/components/tax-profile-editor"
+import { ValidationPanel } from "@/components/validation-panel"
+import { WorkspaceSwitcher } from "@/components/workspace-switcher"
 import { Button } from "@/components/ui/button"
 import { DataTable } from "@/components/ui/data-table"
 import { Input } from "@/components/ui/input"
 import { ModeToggle } from "@/components/ui/mode-toggle"
 import { Select } from "@/components/ui/select"
-import type { ColumnDef } from "@tanstack/react-table"
-
-type TradeType = "buy" | "sell"
-
-interface Trade {
-  id: string
-  date: string
-  type: TradeType
-  amount: number
-  price: number
-  amountInput: string
-  priceInput: string
-}
+import { usePriceHistory } from "@/hooks/use-price-history"
+import { useWorkspaceStorage } from "@/hooks/use-workspace-storage"
+import { accountLabel, computeAccountHoldings, trackAccountBalances } from "@/lib/accounts"
+import {
+  assetActivityForYear,
+  COST_BASIS_METHODS,
+  compareCostBasisMethods,
+  DEFAULT_COST_BASIS_METHOD,
+  lotsBeforeSales,
+  type CostBasisMethod,
+  type Lot,
+  type LotSelections,
+} from "@/lib/cost-basis"
+import { downloadFile, safeFileName } from "@/lib/download"
+import {
+  convertTradesToKrw,
+  createExchangeRateTable,
+  EXCHANGE_RATE_SOURCE_LABELS,
+  findKrwRate,
+  mergeExchangeRates,
+  type ExchangeRate,
+} from "@/lib/exchange-rates"
+import { formatCurrency } from "@/lib/format"
+import {
+  DEFAULT_INCOME_TREATMENTS,
+  INCOME_CATEGORIES,
+  INCOME_TREATMENT_LABELS,
+  INCOME_VALUATION_LABELS,
+  isIncome,
+  sumIncomeYears,
+  valueIncome,
+  valueIncomeEvents,
+  type IncomeTreatment,
+  type IncomeTreatments,
+} from "@/lib/income"
+import {
+  mergeImportedRows,
+  readCsv,
+  type AcceptedImportRow,
+  type CsvTable,
+  type DuplicateStrategy,
+} from "@/lib/importers"
+import {
+  createEmptyOpeningBalance,
+  openingBalanceTrades,
+  type OpeningBalance,
+} from "@/lib/opening-balances"
+import { buildLedger, calculationBasisSheet, ledgerSheet, yearSummarySheet } from "@/lib/ledger"
+import {
+  createMarketPriceLookup,
+  findLatestKrwPrice,
+  findPriceDeviations,
+  valueHoldingsAtYearEnd,
+  type YearEndValuation,
+} from "@/lib/price-history"
+import { buildTaxReport } from "@/lib/report"
+import { expandSwaps, SWAP_VALUATION_LABELS, valueSwap } from "@/lib/swaps"
+import { renderReportPdf } from "@/lib/report-pdf"
+import { parseProjectFile, projectPriceSeries, serializeProject } from "@/lib/project-file"
+import { sheetsToXlsx, sheetToCsv, XLSX_MIME_TYPE } from "@/lib/spreadsheet"
+import {
+  computeLossCarryForwards,
+  computeTaxReports,
+  sumTaxReports,
+  type TaxYearReport,
+} from "@/lib/tax"
+import {
+  createCustomProfile,
+  CUSTOM_PROFILE_ID,
+  DEFAULT_TAX_RULE_PROFILE_ID,
+  findTaxRuleProfile,
+  formatRate,
+  TAX_RULE_PROFILES,
+  totalTaxRate,
+  type TaxRuleProfile,
+} from "@/lib/tax-rules"
+import {
+  createEmptyTrade,
+  normalizeAsset,
+  taxYearOf,
+  todayIsoDate,
+  TRADE_TYPE_LABELS,
+  UNKNOWN_ASSET_LABEL,
+  type FeeCurrency,
+  type Trade,
+  type TradeType,
+} from "@/lib/trades"
+import {
+  expandTransfers,
+  isTransfer,
+  linkTransfer,
+  resolveTransfers,
+  suggestTransferLinks,
+} from "@/lib/transfers"
+import {
+  groupIssuesByTrade,
+  validateTrades,
+  VALIDATION_ISSUE_LABELS,
+} from "@/lib/validation"
+import type { ImportHistoryEntry, WorkspaceContent } from "@/lib/workspace"
+import type { ColumnDef, Row } from "@tanstack/react-table"
 
-const BASIC_DEDUCTION = 2_500_000
-const TAX_RATE = 0.22
-const numberFormatter = new Intl.NumberFormat("ko-KR")
+const ALL_TAX_YEARS = "all"
+const ACCOUNT_OPTIONS_ID = "trade-account-options"
 
-const formatCurrency = (value: number) => numberFormatter.format(Math.round(value))
+// 거래 입력 중에 자주 바뀌는 행별 표시 값. 열 정의 대신 테이블 meta로 넘긴다.
+type TradeTableMeta = {
+  trades: Trade[]
+  transferIssues: Map<string, string>
+}
 
-const createEmptyTrade = (): Trade => ({
-  id: crypto.randomUUID(),
-  date: new Date().toISOString().slice(0, 10),
-  type: "buy",
-  amount: 0,
-  price: 0,
-  amountInput: "",
-  priceInput: "",
-})
+// 거래 목록 검색창이 찾는 값
+const tradeSearchText = (trade: Trade) =>
+  [
+    trade.date,
+    trade.asset,
+    trade.acquiredAsset,
+    accountLabel(trade.account),
+    TRADE_TYPE_LABELS[trade.type],
+    trade.amountInput,
+    trade.priceInput,
+    trade.quoteCurrency,
+  ].join(" ")
+
+const formatYearEndValue = (valuation: YearEndValuation | undefined) => {
+  if (!valuation || valuation.holdingCost === 0) return "-"
+  const value = `${formatCurrency(valuation.marketValue)} 원`
+  return valuation.unpricedAssets.length > 0
+    ? `${value} (시세 없음: ${valuation.unpricedAssets.join(", ")})`
+    : value
+}
 
 export default function Home() {
   const [trades, setTrades] = useState<Trade[]>([createEmptyTrade()])
+  const [addedTradeId, setAddedTradeId] = useState<string | null>(null)
   const deferredTrades = useDeferredValue(trades) // totals는 지연 계산, 테이블은 즉시 반영
   const [importMessage, setImportMessage] = useState<string | null>(null)
+  const [pendingImport, setPendingImport] = useState<{
+    id: string
+    fileName: string
+    table: CsvTable
+  } | null>(null)
+  const [costBasisMethod, setCostBasisMethod] = useState<CostBasisMethod>(DEFAULT_COST_BASIS_METHOD)
+  const [lotSelections, setLotSelections] = useState<LotSelections>({})
+  const [taxYear, setTaxYear] = useState<string | null>(null)
+  const [taxProfileId, setTaxProfileId] = useState(DEFAULT_TAX_RULE_PROFILE_ID)
+  const [customProfile, setCustomProfile] = useState<TaxRuleProfile>(() =>
+    createCustomProfile(TAX_RULE_PROFILES[0])
+  )
+  const taxProfile = findTaxRuleProfile(taxProfileId, customProfile)
+  const [openingBalances, setOpeningBalances] = useState<OpeningBalance[]>([])
+  const [importHistory, setImportHistory] = useState<ImportHistoryEntry[]>([])
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([])
+  const [incomeTreatments, setIncomeTreatments] = useState<IncomeTreatments>(
+    DEFAULT_INCOME_TREATMENTS
+  )
+  const [exportState, setExportState] = useState<{ busy: boolean; error: string | null }>({
+    busy: false,
+    error: null,
+  })
   const fileInputRef = useRef<HTMLInputElement | null>(null)
+  const projectInputRef = useRef<HTMLInputElement | null>(null)
   const tradeCount = trades.length
 
+  const workspaceContent = useMemo<WorkspaceContent>(
+    () => ({
+      trades,
+      openingBalances,
+      exchangeRates,
+      settings: {
+        costBasisMethod,
+        lotSelections,
+        taxYear,
+        taxProfileId,
+        customProfile,
+        incomeTreatments,
+      },
+      importHistory,
+    }),
+    [
+      costBasisMethod,
+      customProfile,
+      exchangeRates,
+      importHistory,
+      incomeTreatments,
+      lotSelections,
+      openingBalances,
+      taxProfileId,
+      taxYear,
+      trades,
+    ]
+  )
+
+  const applyWorkspaceContent = useCallback((content: WorkspaceContent) => {
+    setTrades(content.trades.length > 0 ? content.trades : [createEmptyTrade()])
+    setOpeningBalances(content.openingBalances)
+    setExchangeRates(content.exchangeRates)
+    setCostBasisMethod(content.settings.costBasisMethod)
+    setLotSelections(content.settings.lotSelections)
+    setTaxYear(content.settings.taxYear)
+    setTaxProfileId(content.settings.taxProfileId)
+    setCustomProfile(content.settings.customProfile)
+    setIncomeTreatments(content.settings.incomeTreatments)
+    setImportHistory(content.importHistory)
+    setPendingImport(null)
+    setImportMessage(null)
+  }, [])
+
+  const {
+    workspaces,
+    activeWorkspace,
+    storageError,
+    switchWorkspace,
+    addWorkspace,
+    renameWorkspace,
+    removeWorkspace,
+  } = useWorkspaceStorage(workspaceContent, applyWorkspaceContent)
+
+  const { priceHistory, priceError, addPriceSeries, removePriceSeries } = usePriceHistory()
+
   const handleDownloadTemplate = useCallback(() => {
     const csv =
-      "date,type,amount,price\\n" +
-      "2025-01-01,buy,1,500000\\n" +
-      "2025-01-02,sell,0.5,600000\\n"
-    const blob = new Blob([csv], { type: "text/csv;charset=utf-8;" })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement("a")
-    a.href = url
-    a.download = "cointax-template.csv"
-    a.click()
-    URL.revokeObjectURL(url)
+      "date,asset,type,amount,price,fee,fee_currency,quote,account\n" +
+      "2025-01-01,BTC,buy,1,500000,250,KRW,KRW,업비트\n" +
+      "2025-01-02,BTC,sell,0.5,600000,150,KRW,KRW,업비트\n"
+    downloadFile("cointax-template.csv", csv, "text/csv;charset=utf-8;")
   }, [])
 
+  const handleSaveProject = () => {
+    const name = activeWorkspace?.name ?? "cointax"
+    downloadFile(
+      `${safeFileName(name)}.cointax.json`,
+      serializeProject(name, workspaceContent, projectPriceSeries(workspaceContent, priceHistory)),
+      "application/json"
+    )
+  }
+
+  const handleProjectSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    const reader = new FileReader()
+    reader.onload = () => {
+      const parsed = parseProjectFile(String(reader.result || ""))
+      if (!parsed.ok) {
+        setImportMessage(`프로젝트를 열지 못했습니다. ${parsed.reason}`)
+        return
+      }
+      const name = parsed.name || file.name.replace(/\.json$/i, "").replace(/\.cointax$/i, "")
+      // 파일에 담긴 시세는 이 브라우저의 시세 저장소에 합친다
+      if (parsed.priceHistory.length > 0) void addPriceSeries(parsed.priceHistory)
+      void addWorkspace(name, parsed.content).then(() =>
+        setImportMessage(
+          `"${name}" 프로젝트를 새 작업공간으로 열었습니다 (거래 ${parsed.content.trades.length}건).` +
+            (parsed.priceHistory.length > 0 ? ` 시세 ${parsed.priceHistory.length}개 자산도 불러왔습니다.` : "") +
+            (parsed.migratedFrom !== null ? ` v${parsed.migratedFrom} 파일을 현재 형식으로 변환했습니다.` : "")
+        )
+      )
+    }
+    reader.readAsText(file, "utf-8")
+
+    event.target.value = ""
+  }
+
+  const exchangeRateTable = useMemo(() => createExchangeRateTable(exchangeRates), [exchangeRates])
+  // 손익 엔진에는 원화로 환산한 거래만 넘긴다
+  const krwConversion = useMemo(
+    () => convertTradesToKrw(deferredTrades, exchangeRateTable),
+    [deferredTrades, exchangeRateTable]
+  )
+  const krwTrades = krwConversion.trades
+  const missingRateCount = useMemo(
+    () =>
+      [...krwConversion.conversions.values()].filter((lookup) => lookup.source === "missing")
+        .length,
+    [krwConversion]
+  )
+
+  const hasPriceHistory = Object.keys(priceHistory).length > 0
+  const marketPrice = useMemo(
+    () => createMarketPriceLookup(priceHistory, exchangeRateTable),
+    [exchangeRateTable, priceHistory]
+  )
+  const priceDeviations = useMemo(
+    () => findPriceDeviations(krwTrades, marketPrice),
+    [krwTrades, marketPrice]
+  )
+
+  // 수령 소득은 시가로 평가해 처리 방법에 맞는 취득 단가를 매긴 뒤 엔진에 넘긴다
+  const incomeValuation = useMemo(
+    () => valueIncomeEvents(krwTrades, incomeTreatments, marketPrice),
+    [incomeTreatments, krwTrades, marketPrice]
+  )
+  const valuedTrades = incomeValuation.trades
+  // 기초 보유분을 붙이고 스왑·이체 수수료를 펼친, 손익 엔진이 실제로 처리하는 거래 목록
+  const engineTrades = useMemo(
+    () =>
+      expandSwaps(
+        expandTransfers([...openingBalanceTrades(openingBalances), ...valuedTrades]),
+        marketPrice
+      ).trades,
+    [marketPrice, openingBalances, valuedTrades]
+  )
+  const accountBalances = useMemo(() => trackAccountBalances(engineTrades), [engineTrades])
+
+  const methodResults = useMemo(
+    () =>
+      compareCostBasisMethods(valuedTrades, { lotSelections, openingBalances, marketPrice }).map(
+        (result) => ({
+          ...result,
+          reports: computeTaxReports(result, taxProfile, incomeValuation.years),
+        })
+      ),
+    [incomeValuation.years, lotSelections, marketPrice, openingBalances, taxProfile, valuedTrades]
+  )
+
+  const taxYears = useMemo(
+    () => methodResults[0]?.years.map((activity) => activity.year) ?? [],
+    [methodResults]
+  )
+  // 선택한 연도가 데이터에서 사라지면 가장 최근 연도로 돌아간다
+  const selectedYear =
+    taxYear !== null && (taxYear === ALL_TAX_YEARS || taxYears.includes(taxYear))
+      ? taxYear
+      : (taxYears.at(-1) ?? ALL_TAX_YEARS)
+
+  const summarizeYear = useCallback(
+    (reports: TaxYearReport[]) =>
+      sumTaxReports(
+        selectedYear === ALL_TAX_YEARS
+          ? reports
+          : reports.filter((report) => report.year === selectedYear)
+      ),
+    [selectedYear]
+  )
+
+  const lotsAtSales = useMemo(
+    () =>
+      costBasisMethod === "specificLot"
+        ? lotsBeforeSales(valuedTrades, { lotSelections, openingBalances, marketPrice })
+        : new Map<string, Lot[]>(),
+    [costBasisMethod, lotSelections, marketPrice, openingBalances, valuedTrades]
+  )
+
+  const selectedResult = useMemo(
+    () => methodResults.find((result) => result.method === costBasisMethod) ?? methodResults[0],
+    [costBasisMethod, methodResults]
+  )
+
+  const yearEndValuations = useMemo(
+    () =>
+      new Map(
+        valueHoldingsAtYearEnd(selectedResult, marketPrice).map((valuation) => [
+          valuation.year,
+          valuation,
+        ])
+      ),
+    [marketPrice, selectedResult]
+  )
+
   const totals = useMemo(() => {
-    const totals = deferredTrades.reduce(
-      (acc, trade) => {
-        const gross = trade.amount * trade.price
-
-        if (trade.type === "buy") {
-          acc.totalBuy += gross
-        } else {
-          acc.totalSell += gross
-        }
+    const summary = summarizeYear(selectedResult.reports)
+    const year = selectedYear === ALL_TAX_YEARS ? null : selectedYear
 
-        return acc
-      },
-      { totalBuy: 0, totalSell: 0 }
+    return {
+      ...summary,
+      profit: summary.realizedGain,
+      assets: selectedResult.assets.map((asset) => assetActivityForYear(asset, year)),
+    }
+  }, [selectedResult, selectedYear, summarizeYear])
+
+  const accounts = useMemo(
+    () => [...new Set(trades.map((trade) => trade.account.trim()).filter(Boolean))].sort(),
+    [trades]
+  )
+  const accountHoldings = useMemo(
+    () =>
+      computeAccountHoldings(
+        engineTrades,
+        selectedResult,
+        selectedYear === ALL_TAX_YEARS ? null : selectedYear
+      ),
+    [engineTrades, selectedResult, selectedYear]
+  )
+
+  const lossCarryForwards = useMemo(
+    () => computeLossCarryForwards(selectedResult, taxProfile, incomeValuation.years),
+    [incomeValuation.years, selectedResult, taxProfile]
+  )
+  const hasCarryForwards = lossCarryForwards.length > 0
+
+  // 매도 시뮬레이션은 선택한 산정 방법 그대로 손익 엔진을 다시 돌린다
+  const simulationOptions = useMemo(
+    () => ({ method: selectedResult.method, lotSelections, openingBalances, marketPrice }),
+    [lotSelections, marketPrice, openingBalances, selectedResult.method]
+  )
+  const latestPrices = useMemo(
+    () =>
+      new Map(
+        selectedResult.assets.flatMap((asset) => {
+          const latest = findLatestKrwPrice(priceHistory, exchangeRateTable, asset.asset)
+          return latest ? [[asset.asset, latest] as const] : []
+        })
+      ),
+    [exchangeRateTable, priceHistory, selectedResult]
+  )
+
+  const validationIssues = useMemo(
+    () =>
+      validateTrades({
+        trades: krwTrades,
+        conversions: krwConversion.conversions,
+        result: selectedResult,
+        accountOversells: accountBalances.oversells,
+        priceDeviations,
+        incomeValuations: incomeValuation.valuations,
+        marketPrice,
+        today: todayIsoDate(),
+      }),
+    [
+      accountBalances,
+      incomeValuation.valuations,
+      krwConversion.conversions,
+      krwTrades,
+      marketPrice,
+      priceDeviations,
+      selectedResult,
+    ]
+  )
+  const issuesByTrade = useMemo(() => groupIssuesByTrade(validationIssues), [validationIssues])
+  // 선택한 연도까지의 거래에 있는 error는 보유 로트를 거쳐 그해 세액에 영향을 준다
+  const blockingIssueCount = validationIssues.filter(
+    (issue) =>
+      issue.severity === "error" &&
+      (selectedYear === ALL_TAX_YEARS || taxYearOf(issue.date) <= selectedYear)
+  ).length
+
+  const hasIncome = incomeValuation.valuations.size > 0
+  const selectedIncome = useMemo(
+    () =>
+      sumIncomeYears(
+        selectedYear === ALL_TAX_YEARS
+          ? incomeValuation.years
+          : incomeValuation.years.filter((income) => income.year === selectedYear)
+      ),
+    [incomeValuation.years, selectedYear]
+  )
+
+  const handleExportLedger = (format: "csv" | "xlsx") => {
+    const ledger = ledgerSheet(
+      buildLedger(valuedTrades, selectedResult, openingBalances, marketPrice)
     )
+    const baseName = `${safeFileName(activeWorkspace?.name ?? "cointax")}-ledger-${selectedResult.method}`
+    if (format === "csv") {
+      downloadFile(`${baseName}.csv`, sheetToCsv(ledger), "text/csv;charset=utf-8;")
+      return
+    }
+    const workbook = sheetsToXlsx([
+      ledger,
+      yearSummarySheet(selectedResult.reports),
+      calculationBasisSheet(selectedResult, taxProfile),
+    ])
+    downloadFile(`${baseName}.xlsx`, workbook, XLSX_MIME_TYPE)
+  }
+
+  const handleExportReport = async () => {
+    const year = selectedYear === ALL_TAX_YEARS ? null : selectedYear
+    const workspaceName = activeWorkspace?.name ?? "cointax"
+    setExportState({ busy: true, error: null })
+    try {
+      const pdf = await renderReportPdf(
+        buildTaxReport({
+          workspaceName,
+          year,
+          trades: valuedTrades,
+          openingBalances,
+          result: selectedResult,
+          profile: taxProfile,
+          marketPrice,
+          income: { years: incomeValuation.years, treatments: incomeTreatments },
+        })
+      )
+      downloadFile(
+        `${safeFileName(workspaceName)}-report-${year ?? "all"}.pdf`,
+        pdf,
+        "application/pdf"
+      )
+      setExportState({ busy: false, error: null })
+    } catch (error) {
+      setExportState({
+        busy: false,
+        error: error instanceof Error ? error.message : "PDF를 만들지 못했습니다.",
+      })
+    }
+  }
 
-    const profit = totals.totalSell - totals.totalBuy
-    const taxable = Math.max(0, profit - BASIC_DEDUCTION)
-    const tax = taxable * TAX_RATE
+  const handleLotSelectionChange = useCallback((saleId: string, lotId: string, amount: number) => {
+    setLotSelections((prev) => {
+      const others = (prev[saleId] ?? []).filter((selection) => selection.lotId !== lotId)
+      const next = amount > 0 ? [...others, { lotId, amount }] : others
+      return { ...prev, [saleId]: next }
+    })
+  }, [])
 
-    return { ...totals, profit, taxable, tax }
-  }, [deferredTrades])
+  const handleOpeningBalanceChange = useCallback(
+    (id: string, patch: Partial<OpeningBalance>) => {
+      setOpeningBalances((prev) =>
+        prev.map((balance) => (balance.id === id ? { ...balance, ...patch } : balance))
+      )
+    },
+    []
+  )
+
+  const handleAddOpeningBalance = useCallback(() => {
+    setOpeningBalances((prev) => [...prev, createEmptyOpeningBalance(taxProfile.effectiveFrom)])
+  }, [taxProfile.effectiveFrom])
+
+  const handleDeleteOpeningBalance = useCallback((id: string) => {
+    setOpeningBalances((prev) => prev.filter((balance) => balance.id !== id))
+  }, [])
 
   const handleTradeChange = useCallback(
     <K extends keyof Trade>(id: string, key: K, value: Trade[K]) => {
@@ -105,6 +562,20 @@ export default function Home() {
     )
   }, [])
 
+  const handleAcquiredAmountChange = useCallback((id: string, value: string) => {
+    setTrades((prev) =>
+      prev.map((trade) => {
+        if (trade.id !== id) return trade
+        const parsed = Number.parseFloat(value)
+        return {
+          ...trade,
+          acquiredAmountInput: value,
+          acquiredAmount: Number.isFinite(parsed) ? parsed : 0,
+        }
+      })
+    )
+  }, [])
+
   const handlePriceChange = useCallback((id: string, value: string) => {
     setTrades((prev) =>
       prev.map((trade) => {
@@ -119,124 +590,55 @@ export default function Home() {
     )
   }, [])
 
+  const handleFeeChange = useCallback((id: string, value: string) => {
+    setTrades((prev) =>
+      prev.map((trade) => {
+        if (trade.id !== id) return trade
+        const parsed = Number.parseFloat(value)
+        return {
+          ...trade,
+          feeInput: value,
+          fee: Number.isFinite(parsed) ? parsed : 0,
+        }
+      })
+    )
+  }, [])
+
   const handleAddTrade = useCallback(() => {
-    setTrades((prev) => [...prev, createEmptyTrade()])
+    const trade = createEmptyTrade()
+    setTrades((prev) => [...prev, trade])
+    setAddedTradeId(trade.id)
   }, [])
 
   const handleDeleteTrade = useCallback((id: string) => {
-    setTrades((prev) => (prev.length === 1 ? prev : prev.filter((trade) => trade.id !== id)))
+    setTrades((prev) =>
+      prev.length === 1
+        ? prev
+        : linkTransfer(prev, id, null).filter((trade) => trade.id !== id)
+    )
   }, [])
 
-  const parseCsvLine = (line: string) => {
-    const result: string[] = []
-    let current = ""
-    let insideQuotes = false
-
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i]
-      const next = line[i + 1]
-
-      if (char === '"' && next === '"') {
-        current += '"'
-        i++
-        continue
-      }
-
-      if (char === '"') {
-        insideQuotes = !insideQuotes
-        continue
-      }
-
-      if (char === "," && !insideQuotes) {
-        result.push(current.trim())
-        current = ""
-      } else {
-        current += char
-      }
-    }
-
-    result.push(current.trim())
-    return result
-  }
-
-  const normalizeNumber = (value: string | undefined) => {
-    if (!value) return NaN
-    const cleaned = value.replace(/,/g, "").trim()
-    return cleaned ? Number.parseFloat(cleaned) : NaN
-  }
-
-  const normalizeDate = (value: string | undefined) => {
-    if (!value) return new Date().toISOString().slice(0, 10)
-    const parsed = new Date(value)
-    if (!Number.isNaN(parsed.getTime())) {
-      return parsed.toISOString().slice(0, 10)
-    }
-    return value.slice(0, 10)
-  }
-
-  const toTradeType = (raw: string | undefined): TradeType => {
-    const value = (raw || "").toLowerCase()
-    if (["매수", "bid", "buy", "입금", "deposit"].some((word) => value.includes(word))) {
-      return "buy"
-    }
-    return "sell"
-  }
-
-  const parseCsvToTrades = (text: string): Trade[] => {
-    const lines = text
-      .split(/\r?\n/)
-      .map((line) => line.trim())
-      .filter(Boolean)
-
-    if (lines.length < 2) return []
-
-    const header = parseCsvLine(lines[0]).map((h) => h.toLowerCase())
-    const getColumnIndex = (candidates: string[]) =>
-      header.findIndex((col) => candidates.some((candidate) => col.includes(candidate)))
-
-    const dateIdx = getColumnIndex(["date", "time", "timestamp", "일시", "거래일시"])
-    const typeIdx = getColumnIndex(["side", "type", "trade", "구분", "거래유형"])
-    const amountIdx = getColumnIndex(["amount", "qty", "quantity", "volume", "수량"])
-    const priceIdx = getColumnIndex(["price", "가격", "단가"])
-    const totalIdx = getColumnIndex(["total", "amount(krw)", "krw", "fill total", "거래금액"])
-
-    const parsedTrades: Trade[] = []
-
-    const getCell = (cells: string[], idx: number) =>
-      idx >= 0 && idx < cells.length ? cells[idx] : undefined
-
-    for (let i = 1; i < lines.length; i++) {
-      const cells = parseCsvLine(lines[i])
-      if (!cells.length) continue
-
-      const amount = normalizeNumber(getCell(cells, amountIdx))
-      const price = normalizeNumber(getCell(cells, priceIdx))
-      const total = normalizeNumber(getCell(cells, totalIdx))
-
-      const resolvedAmount = Number.isFinite(amount) ? amount : NaN
-      const resolvedPrice =
-        Number.isFinite(price) && price > 0
-          ? price
-          : Number.isFinite(total) && Number.isFinite(amount) && amount > 0
-            ? total / amount
-            : NaN
-
-      if (!Number.isFinite(resolvedAmount) || !Number.isFinite(resolvedPrice)) {
-        continue
-      }
+  const handleTransferLink = useCallback((id: string, counterpartId: string | null) => {
+    setTrades((prev) => linkTransfer(prev, id, counterpartId))
+  }, [])
 
-      parsedTrades.push({
-        id: crypto.randomUUID(),
-        date: normalizeDate(getCell(cells, dateIdx)),
-        type: toTradeType(getCell(cells, typeIdx)),
-        amount: resolvedAmount,
-        price: resolvedPrice,
-        amountInput: Number.isFinite(resolvedAmount) ? String(resolvedAmount) : "",
-        priceInput: Number.isFinite(resolvedPrice) ? String(resolvedPrice) : "",
-      })
-    }
+  // 연결 상태는 입력 즉시 보여야 하므로 지연되지 않은 거래로 확인한다
+  const transferState = useMemo(() => resolveTransfers(trades), [trades])
+  const hasTransfers = useMemo(() => trades.some((trade) => isTransfer(trade.type)), [trades])
 
-    return parsedTrades
+  const handleAutoLinkTransfers = () => {
+    const links = suggestTransferLinks(trades)
+    setTrades(
+      links.reduce(
+        (acc, [withdrawalId, depositId]) => linkTransfer(acc, withdrawalId, depositId),
+        trades
+      )
+    )
+    setImportMessage(
+      links.length > 0
+        ? `이체 출금과 입금 ${links.length}쌍을 연결했습니다.`
+        : "자동으로 연결할 이체 쌍을 찾지 못했습니다. 수량과 날짜를 확인하거나 직접 연결하세요."
+    )
   }
 
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -245,23 +647,72 @@ export default function Home() {
 
   const reader = new FileReader()
   reader.onload = () => {
-    const content = String(reader.result || "")
-    const importedTrades = parseCsvToTrades(content)
-    if (importedTrades.length === 0) {
+    const table = readCsv(String(reader.result || ""))
+    if (table.rows.length === 0) {
       setImportMessage("CSV에서 읽을 수 있는 행이 없습니다. 헤더를 확인해주세요.")
       return
     }
-    setTrades((prev) => [...prev, ...importedTrades])
-    setImportMessage(`CSV에서 ${importedTrades.length}건을 추가했습니다.`)
+    setImportMessage(null)
+    setPendingImport({ id: crypto.randomUUID(), fileName: file.name, table })
   }
   reader.readAsText(file, "utf-8")
 
   event.target.value = ""
 }
+
+  const existingFingerprints = useMemo(
+    () =>
+      new Set(
+        trades.flatMap((trade) => (trade.importFingerprint ? [trade.importFingerprint] : []))
+      ),
+    [trades]
+  )
+
+  const handleConfirmImport = (
+    rows: AcceptedImportRow[],
+    strategy: DuplicateStrategy,
+    summary: { formatLabel: string; rejected: number }
+  ) => {
+    if (!pendingImport) return
+    const merged = mergeImportedRows(trades, rows, strategy)
+    const foreignQuotes = [
+      ...new Set(
+        rows.map(({ row }) => row.quoteCurrency).filter((quote) => quote && quote !== "KRW")
+      ),
+    ]
+    setTrades(merged.trades)
+    setImportHistory((prev) => [
+      {
+        id: pendingImport.id,
+        fileName: pendingImport.fileName,
+        formatLabel: summary.formatLabel,
+        importedAt: new Date().toISOString(),
+        added: merged.added,
+        duplicates: merged.duplicates,
+        rejected: summary.rejected,
+      },
+      ...prev,
+    ])
+    setPendingImport(null)
+    setImportMessage(
+      [
+        `새 거래 ${merged.added}건을 추가했습니다.`,
+        merged.duplicates > 0
+          ? `이미 있던 ${merged.duplicates}건은 ${strategy === "replace" ? "갱신했습니다" : "건너뛰었습니다"}.`
+          : "",
+        foreignQuotes.length > 0
+          ? `${foreignQuotes.join(", ")} 기준 가격은 거래일 환율로 원화 환산합니다.`
+          : "",
+      ]
+        .filter(Boolean)
+        .join(" ")
+    )
+  }
+
 const resultLine =
-  totals.profit <= 0
+  totals.tax <= 0
     ? "현재 기준 예상 세금은 0원입니다."
-    : `지금 팔면 예상 세금은 약 ${formatCurrency(totals.tax)}원입니다.`
+    : `기록한 매도 기준 예상 세금은 약 ${formatCurrency(totals.tax)}원입니다.`
 const netAfterTax =
     totals.profit > 0 ? Math.max(0, totals.profit - totals.tax) : totals.profit
 
@@ -290,13 +741,61 @@ const netAfterTax =
   const maxChartValue = Math.max(...chartItems.map((item) => Math.abs(item.value)), 1)
   const totalPositive = chartItems.reduce((acc, item) => acc + Math.max(0, item.value), 0) || 1
 
+  // 테이블은 입력 즉시 반영되도록 지연되지 않은 거래로 원화 금액을 구한다
+  const krwTotalOf = useCallback(
+    (trade: Trade) => {
+      const conversion = findKrwRate(exchangeRateTable, trade.quoteCurrency, trade.date)
+      const krwTrade = { ...trade, price: trade.price * conversion.rate }
+      if (trade.type === "swap") {
+        const swap = valueSwap(krwTrade, marketPrice)
+        return { value: swap.value, conversion, swap, income: null }
+      }
+      if (isIncome(trade.type)) {
+        const income = valueIncome(krwTrade, marketPrice)
+        return { value: income.value, conversion, swap: null, income }
+      }
+      return { value: krwTrade.amount * krwTrade.price, conversion, swap: null, income: null }
+    },
+    [exchangeRateTable, marketPrice]
+  )
+
+  const tableMeta = useMemo<TradeTableMeta>(
+    () => ({
+      trades,
+      transferIssues: transferState.unmatched,
+    }),
+    [trades, transferState]
+  )
+
+  const renderTradeIssues = useCallback(
+    (row: Row<Trade>) => {
+      const issues = issuesByTrade.get(row.original.id)
+      if (!issues) return null
+      return (
+        <ul className="space-y-0.5 text-[11px]">
+          {issues.map((issue, index) => (
+            <li
+              key={`${issue.kind}-${index}`}
+              className={
+                issue.severity === "error" ? "text-destructive" : "text-amber-600 dark:text-amber-400"
+              }
+            >
+              {VALIDATION_ISSUE_LABELS[issue.kind]}: {issue.message}
+            </li>
+          ))}
+        </ul>
+      )
+    },
+    [issuesByTrade]
+  )
+
   const columns: ColumnDef<Trade>[] = useMemo(
     () => [
       {
         accessorKey: "date",
         header: "날짜",
         enableSorting: true,
-        meta: { headerClassName: "w-[140px]", className: "pr-4" },
+        meta: { headerClassName: "w-[140px]", className: "pr-4", filterVariant: "dateRange" },
         cell: ({ row }) => {
           const trade = row.original
           return (
@@ -309,23 +808,118 @@ const netAfterTax =
         },
       },
       {
-        accessorKey: "type",
-        header: "구분",
+        // 필터와 정렬은 엔진처럼 대소문자를 맞춘 자산으로 묶는다
+        id: "asset",
+        accessorFn: (trade) => normalizeAsset(trade.asset),
+        header: "자산",
         enableSorting: true,
-        meta: { headerClassName: "w-[120px]", className: "pr-4" },
+        meta: { headerClassName: "w-[110px]", className: "pr-4", filterVariant: "select" },
         cell: ({ row }) => {
           const trade = row.original
+          const assetInput = (
+            <Input
+              aria-label={trade.type === "swap" ? "Disposed asset" : undefined}
+              value={trade.asset}
+              onChange={(event) =>
+                handleTradeChange(trade.id, "asset", event.target.value.toUpperCase())
+              }
+              placeholder={trade.type === "swap" ? "보냄" : "BTC"}
+            />
+          )
+          if (trade.type !== "swap") return assetInput
           return (
+            <div className="flex flex-col gap-1">
+              {assetInput}
+              <Input
+                aria-label="Acquired asset"
+                value={trade.acquiredAsset}
+                onChange={(event) =>
+                  handleTradeChange(trade.id, "acquiredAsset", event.target.value.toUpperCase())
+                }
+                placeholder="받음"
+              />
+            </div>
+          )
+        },
+      },
+      {
+        id: "account",
+        accessorFn: (trade) => trade.account.trim(),
+        header: "계정",
+        enableSorting: true,
+        meta: {
+          headerClassName: "w-[120px]",
+          className: "pr-4",
+          filterVariant: "select",
+          filterLabel: accountLabel,
+        },
+        cell: ({ row }) => {
+          const trade = row.original
+          return (
+            <Input
+              list={ACCOUNT_OPTIONS_ID}
+              value={trade.account}
+              onChange={(event) => handleTradeChange(trade.id, "account", event.target.value)}
+              placeholder="업비트"
+            />
+          )
+        },
+      },
+      {
+        accessorKey: "type",
+        header: "구분",
+        enableSorting: true,
+        meta: {
+          headerClassName: "w-[120px]",
+          className: "pr-4",
+          filterVariant: "select",
+          filterLabel: (value: string) => TRADE_TYPE_LABELS[value as TradeType] ?? value,
+        },
+        cell: ({ row, table }) => {
+          const trade = row.original
+          const typeSelect = (
             <Select
               value={trade.type}
               onChange={(event) =>
                 handleTradeChange(trade.id, "type", event.target.value as TradeType)
               }
             >
-              <option value="buy">Buy</option>
-              <option value="sell">Sell</option>
+              {Object.entries(TRADE_TYPE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
             </Select>
           )
+          if (!isTransfer(trade.type)) return typeSelect
+
+          const { trades: allTrades, transferIssues } = table.options.meta as TradeTableMeta
+          const asset = normalizeAsset(trade.asset)
+          const candidates = allTrades.filter(
+            (candidate) =>
+              isTransfer(candidate.type) &&
+              candidate.type !== trade.type &&
+              normalizeAsset(candidate.asset) === asset
+          )
+          const issue = transferIssues.get(trade.id)
+          return (
+            <div className="flex flex-col gap-1">
+              {typeSelect}
+              <Select
+                aria-label="Linked transfer"
+                value={trade.transferLinkId ?? ""}
+                onChange={(event) => handleTransferLink(trade.id, event.target.value || null)}
+              >
+                <option value="">연결 안 함</option>
+                {candidates.map((candidate) => (
+                  <option key={candidate.id} value={candidate.id}>
+                    {candidate.date} · {candidate.amountInput || candidate.amount}
+                  </option>
+                ))}
+              </Select>
+              {issue && <span className="text-[11px] text-destructive">{issue}</span>}
+            </div>
+          )
         },
       },
       {
@@ -335,36 +929,106 @@ const netAfterTax =
         meta: { headerClassName: "w-[150px]", className: "pr-4" },
         cell: ({ row }) => {
           const trade = row.original
-          return (
+          const amountInput = (
             <Input
               type="number"
               min={0}
               step="any"
               inputMode="decimal"
+              aria-label={trade.type === "swap" ? "Disposed amount" : undefined}
               value={trade.amountInput}
               onChange={(event) => handleAmountChange(trade.id, event.target.value)}
               placeholder="0.00"
             />
           )
+          if (trade.type !== "swap") return amountInput
+          return (
+            <div className="flex flex-col gap-1">
+              {amountInput}
+              <Input
+                type="number"
+                min={0}
+                step="any"
+                inputMode="decimal"
+                aria-label="Acquired amount"
+                value={trade.acquiredAmountInput}
+                onChange={(event) => handleAcquiredAmountChange(trade.id, event.target.value)}
+                placeholder="0.00"
+              />
+            </div>
+          )
         },
       },
       {
         accessorKey: "price",
-        header: "단가 (KRW)",
+        header: "단가",
         enableSorting: true,
-        meta: { headerClassName: "w-[160px]", className: "pr-4" },
+        meta: { headerClassName: "w-[220px]", className: "pr-4" },
         cell: ({ row }) => {
           const trade = row.original
           return (
-            <Input
-              type="number"
-              min={0}
-              step="any"
-              inputMode="decimal"
-              value={trade.priceInput}
-              onChange={(event) => handlePriceChange(trade.id, event.target.value)}
-              placeholder="0"
-            />
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                min={0}
+                step="any"
+                inputMode="decimal"
+                value={trade.priceInput}
+                onChange={(event) => handlePriceChange(trade.id, event.target.value)}
+                placeholder={trade.type === "swap" || isIncome(trade.type) ? "시세" : "0"}
+              />
+              <Input
+                className="w-[76px] shrink-0"
+                aria-label="Quote currency"
+                value={trade.quoteCurrency}
+                onChange={(event) =>
+                  handleTradeChange(trade.id, "quoteCurrency", event.target.value.toUpperCase())
+                }
+                placeholder="KRW"
+              />
+            </div>
+          )
+        },
+      },
+      {
+        accessorKey: "fee",
+        header: "수수료",
+        enableSorting: true,
+        meta: { headerClassName: "w-[200px]", className: "pr-4" },
+        cell: ({ row }) => {
+          const trade = row.original
+          return (
+            <div className="flex flex-col gap-1">
+              <div className="flex gap-2">
+                <Input
+                  type="number"
+                  min={0}
+                  step="any"
+                  inputMode="decimal"
+                  value={trade.feeInput}
+                  onChange={(event) => handleFeeChange(trade.id, event.target.value)}
+                  placeholder="0"
+                />
+                <Select
+                  className="w-[88px] shrink-0"
+                  aria-label="Fee currency"
+                  value={trade.feeCurrency}
+                  onChange={(event) =>
+                    handleTradeChange(trade.id, "feeCurrency", event.target.value as FeeCurrency)
+                  }
+                >
+                  <option value="KRW">{trade.quoteCurrency || "KRW"}</option>
+                  <option value="asset">{normalizeAsset(trade.asset) || "코인"}</option>
+                </Select>
+              </div>
+              {trade.type === "transferOut" && (
+                <span className="text-[11px] text-muted-foreground">
+                  {trade.transferLinkId
+                    ? "받은 수량과의 차이와 이 수수료 중 큰 쪽만 반영"
+                    : "보낸 수량과 별도로 나간 코인 수수료"}
+                </span>
+              )}
+            </div>
           )
         },
       },
@@ -372,14 +1036,46 @@ const netAfterTax =
         id: "total",
         header: "합계 (KRW)",
         enableSorting: true,
-        accessorFn: (row) => row.amount * row.price,
-        meta: { headerClassName: "w-[160px]", className: "pr-4 text-right" },
+        accessorFn: (row) => krwTotalOf(row).value,
+        meta: { headerClassName: "w-[180px]", className: "pr-4 text-right" },
         cell: ({ row }) => {
           const trade = row.original
+          const { value, conversion, swap, income } = krwTotalOf(trade)
+          const valuation = swap ?? income
+          if (isTransfer(trade.type)) {
+            return <span className="text-xs text-muted-foreground">이체 (손익 없음)</span>
+          }
           return (
-            <span className="font-medium text-foreground/90">
-              {formatCurrency(trade.amount * trade.price)} 원
-            </span>
+            <div className="flex flex-col items-end">
+              <span className="font-medium text-foreground/90">{formatCurrency(value)} 원</span>
+              {swap && (
+                <span
+                  className={`text-[11px] ${
+                    swap.source === "missing" ? "text-destructive" : "text-muted-foreground"
+                  }`}
+                >
+                  스왑 평가: {SWAP_VALUATION_LABELS[swap.source]}
+                </span>
+              )}
+              {income && (
+                <span
+                  className={`text-[11px] ${
+                    income.source === "missing" ? "text-destructive" : "text-muted-foreground"
+                  }`}
+                >
+                  수령 시가: {INCOME_VALUATION_LABELS[income.source]}
+                </span>
+              )}
+              {(!valuation || valuation.source === "entered") &&
+                conversion.source !== "krw" &&
+                conversion.source !== "missing" && (
+                  <span className="text-[11px] text-muted-foreground">
+                    1 {trade.quoteCurrency} ={" "}
+                    {conversion.rate.toLocaleString("ko-KR", { maximumFractionDigits: 4 })}원 (
+                    {conversion.date} {EXCHANGE_RATE_SOURCE_LABELS[conversion.source]})
+                  </span>
+                )}
+            </div>
           )
         },
       },
@@ -404,7 +1100,17 @@ const netAfterTax =
         },
       },
     ],
-    [handleAmountChange, handleDeleteTrade, handlePriceChange, handleTradeChange, tradeCount]
+    [
+      handleAcquiredAmountChange,
+      handleAmountChange,
+      handleDeleteTrade,
+      handleFeeChange,
+      handlePriceChange,
+      handleTradeChange,
+      handleTransferLink,
+      krwTotalOf,
+      tradeCount,
+    ]
   )
 
   return (
@@ -412,13 +1118,27 @@ const netAfterTax =
       <header className="border-b border-border/70 bg-background/80 backdrop-blur">
         <div className="mx-auto flex max-w-5xl items-center justify-between px-4 py-4 sm:px-6 lg:px-0">
           <h1 className="text-xl font-bold leading-tight">크립토 세금 계산</h1>
-          <div className="flex items-center gap-3">
+          <div className="flex flex-wrap items-center justify-end gap-3">
             <Button variant="outline" size="sm" onClick={handleDownloadTemplate}>
               CSV 양식 다운로드
             </Button>
             <Button size="sm" onClick={() => fileInputRef.current?.click()}>
               CSV 업로드
             </Button>
+            <Button variant="outline" size="sm" onClick={handleSaveProject}>
+              프로젝트 저장
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => projectInputRef.current?.click()}>
+              프로젝트 열기
+            </Button>
+            <WorkspaceSwitcher
+              workspaces={workspaces}
+              activeWorkspace={activeWorkspace}
+              onSwitch={switchWorkspace}
+              onCreate={addWorkspace}
+              onRename={renameWorkspace}
+              onDelete={removeWorkspace}
+            />
             <ModeToggle />
             <input
               ref={fileInputRef}
@@ -427,6 +1147,13 @@ const netAfterTax =
               className="hidden"
               onChange={handleFileSelect}
             />
+            <input
+              ref={projectInputRef}
+              type="file"
+              accept=".json,application/json"
+              className="hidden"
+              onChange={handleProjectSelect}
+            />
           </div>
         </div>
       </header>
@@ -435,22 +1162,58 @@ const netAfterTax =
         <section className="space-y-2">
           <h2 className="text-2xl font-bold leading-tight">거래 입력</h2>
           <p className="text-sm text-muted-foreground">
-            양식을 다운로드해 채운 뒤 업로드하거나, 아래 테이블에 직접 입력하세요. 날짜 · 구분(매수/매도) · 수량 · 단가가 필요합니다.
+            양식을 다운로드해 채운 뒤 업로드하거나, 아래 테이블에 직접 입력하세요. 날짜 · 자산 · 구분(매수/매도) · 수량 · 단가가 필요합니다.
           </p>
           <ul className="list-disc space-y-1 pl-5 text-xs text-muted-foreground">
-            <li>필수 열: date(YYYY-MM-DD), type(buy/sell), amount, price(KRW).</li>
+            <li>필수 열: date(YYYY-MM-DD), asset(BTC 등), type(buy/sell/deposit/withdrawal/airdrop/staking/mining/interest), amount, price.</li>
+            <li>선택 열: fee(수수료), fee_currency(결제 통화 또는 코인 티커), quote(결제 통화, 기본 KRW), account(거래소·지갑 이름).</li>
             <li>가격이 없고 총액만 있다면 총액 ÷ 수량으로 단가를 계산합니다.</li>
             <li>템플릿을 내려받아 그대로 채우면 가장 안전합니다.</li>
+            <li>입력한 거래와 설정은 이 브라우저에 작업공간별로 자동 저장됩니다. 서버로는 전송되지 않습니다.</li>
           </ul>
           {importMessage && (
             <p className="text-sm font-medium text-primary">{importMessage}</p>
           )}
+          {storageError && (
+            <p className="text-sm font-medium text-destructive">{storageError}</p>
+          )}
+          {pendingImport && (
+            <ImportPreview
+              key={pendingImport.id}
+              fileName={pendingImport.fileName}
+              table={pendingImport.table}
+              existingFingerprints={existingFingerprints}
+              onConfirm={handleConfirmImport}
+              onCancel={() => setPendingImport(null)}
+            />
+          )}
+          {importHistory.length > 0 && (
+            <details className="rounded-xl border border-border/70 bg-muted/30 px-4 py-3 text-xs">
+              <summary className="cursor-pointer text-sm font-medium text-foreground">
+                가져오기 기록 ({importHistory.length})
+              </summary>
+              <ul className="mt-2 space-y-1 text-muted-foreground">
+                {importHistory.map((entry) => (
+                  <li key={entry.id}>
+                    {new Date(entry.importedAt).toLocaleString("ko-KR")} · {entry.fileName} (
+                    {entry.formatLabel}) · 추가 {entry.added}건 · 중복 {entry.duplicates}건 · 제외{" "}
+                    {entry.rejected}건
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
         </section>
 
         <section className="space-y-4 rounded-2xl border border-border/70 bg-card/60 p-4 shadow-sm sm:p-6">
           <div className="flex flex-wrap items-center justify-between gap-3">
             <h3 className="text-lg font-semibold">거래 목록</h3>
             <div className="flex gap-2">
+              {hasTransfers && (
+                <Button variant="outline" onClick={handleAutoLinkTransfers}>
+                  이체 자동 연결
+                </Button>
+              )}
               <Button variant="outline" onClick={handleAddTrade}>
                 <Plus className="size-4" />
                 거래 추가
@@ -458,16 +1221,142 @@ const netAfterTax =
             </div>
           </div>
 
+          {transferState.unmatched.size > 0 && (
+            <p className="text-xs font-medium text-destructive">
+              연결되지 않은 이체 {transferState.unmatched.size}건이 있습니다. 내 다른 지갑이나 거래소로
+              옮긴 것이라면 반대쪽 입금/출금과 연결하세요. 연결하지 않은 이체도 보유 로트는 그대로 둡니다.
+            </p>
+          )}
+
+          <ValidationPanel issues={validationIssues} />
+
           <DataTable
             data={trades}
             columns={columns}
             getRowId={(row) => row.id}
+            meta={tableMeta}
+            renderRowDetail={renderTradeIssues}
+            getSearchText={tradeSearchText}
+            searchPlaceholder="자산, 계정, 금액 검색"
+            focusRowId={addedTradeId}
             emptyMessage="거래가 없습니다."
           />
+          <datalist id={ACCOUNT_OPTIONS_ID}>
+            {accounts.map((account) => (
+              <option key={account} value={account} />
+            ))}
+          </datalist>
+        </section>
+
+        <section className="rounded-2xl border border-border/70 bg-card/60 p-4 shadow-sm sm:p-6">
+          <ExchangeRatePanel
+            rates={exchangeRates}
+            missingCount={missingRateCount}
+            onAdd={(rates) => setExchangeRates((prev) => mergeExchangeRates(prev, rates))}
+            onClear={() => setExchangeRates([])}
+          />
+        </section>
+
+        <section className="rounded-2xl border border-border/70 bg-card/60 p-4 shadow-sm sm:p-6">
+          <PriceHistoryPanel
+            history={priceHistory}
+            error={priceError}
+            deviationCount={priceDeviations.size}
+            onAdd={addPriceSeries}
+            onRemove={removePriceSeries}
+          />
+        </section>
+
+        <section className="rounded-2xl border border-border/70 bg-card/60 p-4 shadow-sm sm:p-6">
+          <OpeningBalanceTable
+            balances={openingBalances}
+            onChange={handleOpeningBalanceChange}
+            onAdd={handleAddOpeningBalance}
+            onDelete={handleDeleteOpeningBalance}
+          />
         </section>
 
         <section className="space-y-3 rounded-2xl border border-border/70 bg-card/60 p-4 shadow-sm sm:p-6">
-          <h3 className="text-xl font-semibold">요약</h3>
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <h3 className="text-xl font-semibold">요약</h3>
+            <div className="flex flex-wrap items-center gap-3">
+              <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                과세연도
+                <Select
+                  className="w-[120px]"
+                  value={selectedYear}
+                  onChange={(event) => setTaxYear(event.target.value)}
+                >
+                  {taxYears.map((year) => (
+                    <option key={year} value={year}>
+                      {year}년
+                    </option>
+                  ))}
+                  <option value={ALL_TAX_YEARS}>전체 기간</option>
+                </Select>
+              </label>
+              <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                세법 규칙
+                <Select
+                  className="w-[200px]"
+                  value={taxProfileId}
+                  onChange={(event) => setTaxProfileId(event.target.value)}
+                >
+                  {TAX_RULE_PROFILES.map((profile) => (
+                    <option key={profile.id} value={profile.id}>
+                      {profile.name}
+                    </option>
+                  ))}
+                  <option value={CUSTOM_PROFILE_ID}>{customProfile.name}</option>
+                </Select>
+              </label>
+              <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                취득가액 산정
+                <Select
+                  className="w-[180px]"
+                  value={costBasisMethod}
+                  onChange={(event) => setCostBasisMethod(event.target.value as CostBasisMethod)}
+                >
+                  {COST_BASIS_METHODS.map((method) => (
+                    <option key={method.value} value={method.value}>
+                      {method.label}
+                    </option>
+                  ))}
+                </Select>
+              </label>
+            </div>
+          </div>
+          {taxProfileId === CUSTOM_PROFILE_ID && (
+            <TaxProfileEditor
+              key={activeWorkspace?.id}
+              profile={customProfile}
+              onChange={setCustomProfile}
+            />
+          )}
+          <p className="text-xs text-muted-foreground">
+            적용 규칙: {taxProfile.name} (v{taxProfile.version}) · 기본공제{" "}
+            {formatCurrency(taxProfile.deduction)}원 · 세율 {formatRate(taxProfile.nationalRate)} +
+            지방세 {formatRate(taxProfile.localRate)} · {taxProfile.effectiveFrom.slice(0, 4)}년
+            {taxProfile.effectiveTo ? `~${taxProfile.effectiveTo.slice(0, 4)}년` : "부터"} 적용
+          </p>
+          <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+            원장 내보내기
+            <Button variant="outline" size="sm" onClick={() => handleExportLedger("csv")}>
+              CSV
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => handleExportLedger("xlsx")}>
+              XLSX (연도별 요약 포함)
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={exportState.busy}
+              onClick={handleExportReport}
+            >
+              {exportState.busy ? "PDF 만드는 중…" : "PDF 보고서"}
+            </Button>
+            {exportState.error && <span className="text-destructive">{exportState.error}</span>}
+          </div>
           <div className="grid gap-3 sm:grid-cols-2">
             <div className="rounded-xl border border-border/80 bg-muted/40 px-4 py-3">
               <p className="text-sm text-muted-foreground">총 매수</p>
@@ -485,9 +1374,289 @@ const netAfterTax =
               <p className="text-sm text-muted-foreground">과세표준</p>
               <p className="text-lg font-semibold">{formatCurrency(totals.taxable)} 원</p>
             </div>
+            <div className="rounded-xl border border-border/80 bg-muted/40 px-4 py-3">
+              <p className="text-sm text-muted-foreground">총 수수료</p>
+              <p className="text-lg font-semibold">{formatCurrency(totals.totalFee)} 원</p>
+            </div>
+            <div className="rounded-xl border border-border/80 bg-muted/40 px-4 py-3">
+              <p className="text-sm text-muted-foreground">보유 원가 (미실현)</p>
+              <p className="text-lg font-semibold">{formatCurrency(totals.holdingCost)} 원</p>
+            </div>
           </div>
           <div className="rounded-xl border border-primary/30 bg-primary/5 px-4 py-3 text-sm font-semibold text-primary">
             {resultLine}
+            {blockingIssueCount > 0 && (
+              <p className="mt-1 text-xs font-medium text-destructive">
+                거래 목록에 계산을 막는 문제가 {blockingIssueCount}건 있어 이 금액은 정확하지 않습니다. 거래
+                목록 점검에서 먼저 고치세요.
+              </p>
+            )}
+          </div>
+          {selectedResult.reports.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-foreground">연도별 신고 내역</p>
+              <div className="overflow-x-auto rounded-xl border border-border/70">
+                <table className="w-full text-xs">
+                  <thead className="bg-muted/40 text-muted-foreground">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium">연도</th>
+                      <th className="px-3 py-2 text-right font-medium">실현 손익</th>
+                      {hasIncome && (
+                        <th className="px-3 py-2 text-right font-medium">수령 소득 (과세)</th>
+                      )}
+                      {hasCarryForwards && (
+                        <th className="px-3 py-2 text-right font-medium">이월결손금 공제</th>
+                      )}
+                      <th className="px-3 py-2 text-right font-medium">기본공제</th>
+                      <th className="px-3 py-2 text-right font-medium">과세표준</th>
+                      <th className="px-3 py-2 text-right font-medium">예상 세액</th>
+                      <th className="px-3 py-2 text-right font-medium">연말 보유 원가</th>
+                      {hasPriceHistory && (
+                        <th className="px-3 py-2 text-right font-medium">연말 평가액</th>
+                      )}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {selectedResult.reports.map((report) => (
+                      <tr
+                        key={report.year}
+                        className={`border-t border-border/60 ${
+                          report.year === selectedYear ? "bg-primary/5 font-semibold" : ""
+                        }`}
+                      >
+                        <td className="px-3 py-2">
+                          {report.year}년
+                          {!report.inEffect && (
+                            <span className="ml-1 text-muted-foreground">(비과세)</span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-right">{formatCurrency(report.realizedGain)} 원</td>
+                        {hasIncome && (
+                          <td className="px-3 py-2 text-right">{formatCurrency(report.income)} 원</td>
+                        )}
+                        {hasCarryForwards && (
+                          <td className="px-3 py-2 text-right">
+                            {formatCurrency(report.carriedLossUsed)} 원
+                          </td>
+                        )}
+                        <td className="px-3 py-2 text-right">{formatCurrency(report.deduction)} 원</td>
+                        <td className="px-3 py-2 text-right">{formatCurrency(report.taxable)} 원</td>
+                        <td className="px-3 py-2 text-right">{formatCurrency(report.tax)} 원</td>
+                        <td className="px-3 py-2 text-right">{formatCurrency(report.holdingCost)} 원</td>
+                        {hasPriceHistory && (
+                          <td className="px-3 py-2 text-right">
+                            {formatYearEndValue(yearEndValuations.get(report.year))}
+                          </td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+          {hasCarryForwards && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-foreground">결손금 이월 공제</p>
+              <p className="text-xs text-muted-foreground">
+                자산 간 통산 후 손실이 난 해의 결손금을 이후 {taxProfile.lossNetting.carryForwardYears}년 동안
+                오래된 것부터 이익에서 뺍니다.
+              </p>
+              <div className="overflow-x-auto rounded-xl border border-border/70">
+                <table className="w-full text-xs">
+                  <thead className="bg-muted/40 text-muted-foreground">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium">발생 연도</th>
+                      <th className="px-3 py-2 text-right font-medium">결손금</th>
+                      <th className="px-3 py-2 text-left font-medium">공제 내역</th>
+                      <th className="px-3 py-2 text-right font-medium">소멸</th>
+                      <th className="px-3 py-2 text-right font-medium">잔액</th>
+                      <th className="px-3 py-2 text-left font-medium">공제 기한</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {lossCarryForwards.map((carry) => (
+                      <tr key={carry.year} className="border-t border-border/60">
+                        <td className="px-3 py-2">{carry.year}년</td>
+                        <td className="px-3 py-2 text-right">{formatCurrency(carry.loss)} 원</td>
+                        <td className="px-3 py-2">
+                          {carry.applied.length === 0
+                            ? "-"
+                            : carry.applied
+                                .map((item) => `${item.year}년 ${formatCurrency(item.amount)} 원`)
+                                .join(", ")}
+                        </td>
+                        <td className="px-3 py-2 text-right">{formatCurrency(carry.expired)} 원</td>
+                        <td className="px-3 py-2 text-right">{formatCurrency(carry.remaining)} 원</td>
+                        <td className="px-3 py-2">{carry.expiresAfter}년까지</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+          {totals.assets.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-foreground">자산별 손익</p>
+              <div className="overflow-x-auto rounded-xl border border-border/70">
+                <table className="w-full text-xs">
+                  <thead className="bg-muted/40 text-muted-foreground">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium">자산</th>
+                      <th className="px-3 py-2 text-right font-medium">총 매수</th>
+                      <th className="px-3 py-2 text-right font-medium">총 매도</th>
+                      <th className="px-3 py-2 text-right font-medium">실현 손익</th>
+                      <th className="px-3 py-2 text-right font-medium">보유 수량</th>
+                      <th className="px-3 py-2 text-right font-medium">보유 원가</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {totals.assets.map((asset) => (
+                      <tr key={asset.asset} className="border-t border-border/60">
+                        <td className="px-3 py-2 font-medium">{asset.asset || UNKNOWN_ASSET_LABEL}</td>
+                        <td className="px-3 py-2 text-right">{formatCurrency(asset.totalBuy)} 원</td>
+                        <td className="px-3 py-2 text-right">{formatCurrency(asset.totalSell)} 원</td>
+                        <td className="px-3 py-2 text-right">{formatCurrency(asset.realizedGain)} 원</td>
+                        <td className="px-3 py-2 text-right">{asset.holdingAmount.toLocaleString("ko-KR")}</td>
+                        <td className="px-3 py-2 text-right">{formatCurrency(asset.holdingCost)} 원</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                  <tfoot className="border-t border-border/80 font-semibold">
+                    <tr>
+                      <td className="px-3 py-2">합계</td>
+                      <td className="px-3 py-2 text-right">{formatCurrency(totals.totalBuy)} 원</td>
+                      <td className="px-3 py-2 text-right">{formatCurrency(totals.totalSell)} 원</td>
+                      <td className="px-3 py-2 text-right">{formatCurrency(totals.profit)} 원</td>
+                      <td className="px-3 py-2 text-right">-</td>
+                      <td className="px-3 py-2 text-right">{formatCurrency(totals.holdingCost)} 원</td>
+                    </tr>
+                  </tfoot>
+                </table>
+              </div>
+            </div>
+          )}
+          {hasIncome && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-foreground">수령 소득</p>
+              <p className="text-xs text-muted-foreground">
+                에어드롭·스테이킹 보상·채굴·이자는 받은 날의 시가로 평가합니다. 단가를 비워 두면
+                불러온 일별 시세를 씁니다. 범주마다 과세 처리 방법을 고를 수 있습니다.
+              </p>
+              <div className="overflow-x-auto rounded-xl border border-border/70">
+                <table className="w-full text-xs">
+                  <thead className="bg-muted/40 text-muted-foreground">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium">구분</th>
+                      <th className="px-3 py-2 text-right font-medium">수령 시가</th>
+                      <th className="px-3 py-2 text-left font-medium">과세 처리</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {INCOME_CATEGORIES.map((category) => (
+                      <tr key={category} className="border-t border-border/60">
+                        <td className="px-3 py-2 font-medium">{TRADE_TYPE_LABELS[category]}</td>
+                        <td className="px-3 py-2 text-right">
+                          {formatCurrency(selectedIncome.categories[category])} 원
+                        </td>
+                        <td className="px-3 py-2">
+                          <Select
+                            className="h-8 w-[230px]"
+                            aria-label={`${TRADE_TYPE_LABELS[category]} treatment`}
+                            value={incomeTreatments[category]}
+                            onChange={(event) =>
+                              setIncomeTreatments((prev) => ({
+                                ...prev,
+                                [category]: event.target.value as IncomeTreatment,
+                              }))
+                            }
+                          >
+                            {Object.entries(INCOME_TREATMENT_LABELS).map(([value, label]) => (
+                              <option key={value} value={value}>
+                                {label}
+                              </option>
+                            ))}
+                          </Select>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                  <tfoot className="border-t border-border/80 font-semibold">
+                    <tr>
+                      <td className="px-3 py-2">과세 대상에 합산</td>
+                      <td className="px-3 py-2 text-right">{formatCurrency(selectedIncome.taxable)} 원</td>
+                      <td className="px-3 py-2" />
+                    </tr>
+                  </tfoot>
+                </table>
+              </div>
+            </div>
+          )}
+          {accounts.length > 0 && (
+            <AccountHoldings
+              holdings={accountHoldings}
+              oversellCount={accountBalances.oversells.size}
+            />
+          )}
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-foreground">지금 팔면? 매도 시뮬레이션</p>
+            <p className="text-xs text-muted-foreground">
+              자산별 현재가를 입력하거나 시세 파일의 최근 종가를 불러와 미실현 손익과 매도 시 늘어나는 세금을
+              확인하세요. 입력값은 저장되지 않습니다.
+            </p>
+            <SellSimulator
+              result={selectedResult}
+              reports={selectedResult.reports}
+              carryForwards={lossCarryForwards}
+              trades={valuedTrades}
+              options={simulationOptions}
+              profile={taxProfile}
+              incomeYears={incomeValuation.years}
+              latestPrices={latestPrices}
+            />
+          </div>
+          {costBasisMethod === "specificLot" && (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-foreground">매도별 로트 지정</p>
+              <p className="text-xs text-muted-foreground">
+                지정하지 않은 수량은 먼저 산 로트부터 채워집니다.
+              </p>
+              <LotPicker
+                key={activeWorkspace?.id}
+                trades={engineTrades}
+                availableLots={lotsAtSales}
+                selections={lotSelections}
+                onChange={handleLotSelectionChange}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-foreground">산정 방법별 비교</p>
+            <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-5">
+              {methodResults.map((result) => (
+                <button
+                  key={result.method}
+                  type="button"
+                  onClick={() => setCostBasisMethod(result.method)}
+                  className={`rounded-xl border px-3 py-2 text-left text-xs transition-colors ${
+                    result.method === costBasisMethod
+                      ? "border-primary/50 bg-primary/5"
+                      : "border-border/70 bg-muted/30 hover:bg-muted/50"
+                  }`}
+                >
+                  <p className="font-medium text-foreground">
+                    {COST_BASIS_METHODS.find((method) => method.value === result.method)?.label}
+                  </p>
+                  <p className="mt-1 text-muted-foreground">
+                    실현 손익 {formatCurrency(summarizeYear(result.reports).realizedGain)} 원
+                  </p>
+                  <p className="text-muted-foreground">
+                    예상 세금 {formatCurrency(summarizeYear(result.reports).tax)} 원
+                  </p>
+                </button>
+              ))}
+            </div>
           </div>
           <div className="space-y-3">
             <p className="text-sm font-medium text-foreground">그래프로 보기</p>
@@ -583,10 +1752,18 @@ const netAfterTax =
               CSV는 어떻게 사용하나요? <span className="text-primary">자세히 보기</span>
             </summary>
             <div className="mt-3 space-y-2 text-sm text-muted-foreground">
-              <p>상단의 CSV 양식을 다운로드한 뒤, date/type/amount/price 열에 맞춰 채우고 업로드하세요.</p>
-              <p>type은 buy/sell(또는 매수/매도)으로 표기하세요. 가격은 KRW 기준입니다.</p>
+              <p>상단의 CSV 양식을 다운로드한 뒤, date/asset/type/amount/price 열에 맞춰 채우고 업로드하세요.</p>
+              <p>손익은 자산(코인)별로 따로 계산한 뒤 합산합니다. &quot;KRW-BTC&quot; 같은 마켓 표기도 BTC로 인식합니다.</p>
+              <p>type은 buy/sell(또는 매수/매도)으로 표기하세요. 가격은 quote 열의 통화 기준이며, 원화가 아니면 거래일 환율로 원화 환산해 계산합니다.</p>
               <p>단가가 없고 총액만 있으면 총액 ÷ 수량으로 단가를 계산합니다.</p>
-              <p>업비트·바이낸스·바이빗·빗썸 CSV도 동일한 열 이름이 있으면 자동 매핑됩니다.</p>
+              <p>
+                입금/출금(deposit/withdrawal) 행은 이체 입금·이체 출금으로 읽습니다. 내 지갑과 거래소 사이의 이동은 과세 대상 매도가 아니므로, 출금과 입금을 연결하면 로트와 취득가액이 그대로 이어지고 줄어든 수량만 출금 수수료로 처리합니다. 출금 행에 코인 수수료도 적었다면 줄어든 수량과 그 수수료 중 큰 쪽만 반영합니다.
+              </p>
+              <p>업비트·빗썸·바이낸스·바이비트의 거래내역 내보내기 파일은 헤더로 형식을 감지해 전용 규칙으로 읽습니다. 업로드하면 미리보기에서 감지된 형식과 열 매핑을 확인하고, 틀리면 직접 바꾼 뒤 추가할 수 있습니다.</p>
+              <p>해외 거래소 시각(UTC)은 한국 시간 기준 날짜로 바꿔 기록합니다.</p>
+              <p>
+                &quot;프로젝트 저장&quot;은 거래·기초 보유분·세법 규칙·산정 방법과 거래한 자산의 일별 시세를 버전이 붙은 JSON 파일 하나로 내려받습니다. &quot;프로젝트 열기&quot;로 불러오면 새 작업공간으로 열리며, 이전 버전 파일은 자동으로 변환됩니다.
+              </p>
             </div>
           </details>
           <details className="group rounded-xl border border-border/70 bg-muted/30 px-4 py-3">
@@ -594,8 +1771,31 @@ const netAfterTax =
               과세 기준과 공제는 어떻게 되나요? <span className="text-primary">자세히 보기</span>
             </summary>
             <div className="mt-3 space-y-2 text-sm text-muted-foreground">
-              <p>단순 모델: 기본공제 2,500,000원, 세율 22%(지방세 포함) 적용.</p>
-              <p>과세소득 = max(0, 실현이익 - 기본공제), 예상세액 = 과세소득 × 0.22</p>
+              <p>
+                선택한 규칙({taxProfile.name}): 기본공제 {formatCurrency(taxProfile.deduction)}원, 세율{" "}
+                {formatRate(totalTaxRate(taxProfile))}(지방세 {formatRate(taxProfile.localRate)} 포함) 적용.
+              </p>
+              <p>실현이익은 선택한 취득가액 산정 방법(기본: 이동평균법)으로 매도분의 취득가액을 계산해 구합니다.</p>
+              <p>
+                에어드롭·스테이킹 보상·채굴·이자는 받은 날의 시가로 새 로트를 만듭니다. &quot;수령 시 과세&quot;로 두면 그 시가가 과세 대상 소득에 더해지고, &quot;수령 시 비과세&quot;로 두면 취득가액 0으로 남아 팔 때 전액이 이익이 됩니다.
+              </p>
+              <p>
+                과세 대상 소득 = 통산한 실현이익 + 수령 시 과세 소득 - 이월결손금 공제, 과세소득 = max(0, 과세 대상
+                소득 - 기본공제), 예상세액 = 과세소득 × {formatRate(totalTaxRate(taxProfile))}
+              </p>
+              <p>
+                {taxProfile.lossNetting.netAcrossAssets
+                  ? "같은 해에 여러 자산에서 난 이익과 손실은 서로 통산합니다."
+                  : "자산 간 손익을 통산하지 않고, 이익이 난 자산만 합산합니다."}{" "}
+                {taxProfile.lossNetting.carryForwardYears > 0
+                  ? `통산한 뒤 남은 손실은 결손금으로 ${taxProfile.lossNetting.carryForwardYears}년 동안 이월해 이후 이익에서 뺍니다.`
+                  : "선택한 규칙은 손실을 다음 해로 이월하지 않습니다."}{" "}
+                시행 기간 밖의 연도는 비과세로 표시됩니다.
+              </p>
+              <p>
+                스왑(코인끼리 교환)은 보낸 코인을 교환 시점 가치로 처분한 것으로 보고 손익을 실현하며, 받은 코인은 같은 금액을 취득가액으로 새 로트를 만듭니다. 단가를 비워 두면 불러온 일별 시세로 평가합니다.
+              </p>
+              <p>손익과 기본공제는 과세연도(1월 1일~12월 31일)별로 따로 계산하며, 연말에 남은 보유분은 취득가액 그대로 다음 해로 이월됩니다.</p>
             </div>
           </details>
           <details className="group rounded-xl border border-border/70 bg-muted/30 px-4 py-3">
@@ -603,6 +1803,7 @@ const netAfterTax =
               실제 신고 시기는 언제인가요? <span className="text-primary">자세히 보기</span>
             </summary>
             <div className="mt-3 space-y-2 text-sm text-muted-foreground">
+              <p>요약의 &quot;PDF 보고서&quot;는 선택한 과세연도의 요약, 자산별 내역, 적용한 산정 방법과 세법 규칙, 전체 거래 목록을 PDF로 만듭니다. 파일은 브라우저 안에서만 만들어집니다.</p>
               <p>현행 가상자산 과세안 기준, 연간 소득을 다음해 5월 종합소득세 신고 기간에 신고합니다.</p>
               <p>법령 변경 가능성이 있으니 최신 국세청 안내를 확인하세요.</p>
             </div>
@@ -612,8 +1813,9 @@ const netAfterTax =
               수수료나 기타 비용은 반영되나요? <span className="text-primary">자세히 보기</span>
             </summary>
             <div className="mt-3 space-y-2 text-sm text-muted-foreground">
-              <p>현재 계산기는 수수료, 기타 공제 항목을 반영하지 않은 단순 모델입니다.</p>
-              <p>정확한 신고를 위해서는 거래소 수수료, 원화 환산 시점 등을 별도 반영해야 합니다.</p>
+              <p>매수 수수료는 취득가액에 더하고, 매도 수수료는 매도 금액에서 뺍니다.</p>
+              <p>코인으로 낸 매수 수수료는 받은 수량을 줄이며, 코인으로 낸 매도 수수료와 출금 수수료로 나간 코인은 보유 로트에서 빼고 취득가액만큼 필요경비로 반영합니다.</p>
+              <p>그 밖의 부대 비용은 별도로 확인해야 합니다.</p>
             </div>
           </details>
           <details className="group rounded-xl border border-border/70 bg-muted/30 px-4 py-3">
@@ -621,7 +1823,10 @@ const netAfterTax =
               손실 이월이나 다른 공제는 적용되나요? <span className="text-primary">자세히 보기</span>
             </summary>
             <div className="mt-3 space-y-2 text-sm text-muted-foreground">
-              <p>이 도구는 손실 이월, 기타 세법상 특별공제를 지원하지 않습니다.</p>
+              <p>
+                같은 해 자산 간 손익 통산과 결손금 이월 공제는 세법 규칙에 따라 적용됩니다. 기본 제공 규칙은 이월을 허용하지 않으므로, 이월을 가정하려면 사용자 정의 시나리오에서 이월 햇수를 정하세요. 이월 내역은 요약의 &quot;결손금 이월 공제&quot; 표에서 확인할 수 있습니다.
+              </p>
+              <p>그 밖의 세법상 특별공제는 지원하지 않습니다.</p>
               <p>실제 신고 시에는 세무 전문가 상담을 권장합니다.</p>
             </div>
           </details>
@@ -0,0 +1,59 @@
+"use client"
+
+import { accountLabel, type AccountHolding } from "@/lib/accounts"
+import { formatCurrency } from "@/lib/format"
+import { UNKNOWN_ASSET_LABEL } from "@/lib/trades"
+
+type AccountHoldingsProps = {
+  holdings: AccountHolding[]
+  oversellCount: number
+}
+
+export function AccountHoldings({ holdings, oversellCount }: AccountHoldingsProps) {
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-foreground">계정별 보유</p>
+      <p className="text-xs text-muted-foreground">
+        거래소·지갑 잔고와 맞춰 볼 수 있도록 계정마다 남은 수량을 보여 줍니다. 취득가액은 계정과 관계없이
+        통산하므로 계정 몫의 보유 원가는 수량 비율로 나눈 값입니다.
+      </p>
+      {oversellCount > 0 && (
+        <p className="text-xs font-medium text-destructive">
+          계정 보유 수량보다 많이 매도하거나 내보낸 거래가 {oversellCount}건 있습니다. 이체나 매수 기록이
+          빠졌는지 확인하세요.
+        </p>
+      )}
+      {holdings.length === 0 ? (
+        <p className="text-xs text-muted-foreground">보유 중인 자산이 없습니다.</p>
+      ) : (
+        <div className="overflow-x-auto rounded-xl border border-border/70">
+          <table className="w-full text-xs">
+            <thead className="bg-muted/40 text-muted-foreground">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium">계정</th>
+                <th className="px-3 py-2 text-left font-medium">자산</th>
+                <th className="px-3 py-2 text-right font-medium">보유 수량</th>
+                <th className="px-3 py-2 text-right font-medium">보유 원가</th>
+              </tr>
+            </thead>
+            <tbody>
+              {holdings.map((holding) => (
+                <tr
+                  key={`${holding.account}-${holding.asset}`}
+                  className={`border-t border-border/60 ${holding.amount < 0 ? "text-destructive" : ""}`}
+                >
+                  <td className="px-3 py-2 font-medium">{accountLabel(holding.account)}</td>
+                  <td className="px-3 py-2">{holding.asset || UNKNOWN_ASSET_LABEL}</td>
+                  <td className="px-3 py-2 text-right">
+                    {holding.amount.toLocaleString("ko-KR", { maximumFractionDigits: 8 })}
+                  </td>
+                  <td className="px-3 py-2 text-right">{formatCurrency(holding.holdingCost)} 원</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
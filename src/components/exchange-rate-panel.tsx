@@ -0,0 +1,135 @@
+"use client"
+
+import { useMemo, useRef, useState } from "react"
+
+import { Button } from "@/components/ui/button"
+import {
+  BUNDLED_EXCHANGE_RATES,
+  parseExchangeRateCsv,
+  type ExchangeRate,
+} from "@/lib/exchange-rates"
+
+type ExchangeRatePanelProps = {
+  rates: ExchangeRate[]
+  /** 환율을 찾지 못한 외화 거래 수 */
+  missingCount: number
+  onAdd: (rates: ExchangeRate[]) => void
+  onClear: () => void
+}
+
+const summarizeRates = (rates: ExchangeRate[]) => {
+  const byCurrency = new Map<string, ExchangeRate[]>()
+  for (const rate of rates) {
+    byCurrency.set(rate.currency, [...(byCurrency.get(rate.currency) ?? []), rate])
+  }
+  return [...byCurrency].map(([currency, list]) => ({
+    currency,
+    count: list.length,
+    from: list[0].date,
+    to: list[list.length - 1].date,
+    latest: list[list.length - 1].rate,
+  }))
+}
+
+export function ExchangeRatePanel({ rates, missingCount, onAdd, onClear }: ExchangeRatePanelProps) {
+  const inputRef = useRef<HTMLInputElement | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const summary = useMemo(() => summarizeRates(rates), [rates])
+  const bundled = summarizeRates(BUNDLED_EXCHANGE_RATES)
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+
+    const reader = new FileReader()
+    reader.onload = () => {
+      const parsed = parseExchangeRateCsv(String(reader.result || ""))
+      if (parsed.missingColumns) {
+        setMessage("date, currency, rate 열이 필요합니다.")
+        return
+      }
+      onAdd(parsed.rates)
+      setMessage(
+        `환율 ${parsed.rates.length}건을 불러왔습니다.` +
+          (parsed.skipped > 0 ? ` 읽을 수 없는 ${parsed.skipped}행은 건너뛰었습니다.` : "")
+      )
+    }
+    reader.readAsText(file, "utf-8")
+
+    event.target.value = ""
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold">원화 환산 환율</h3>
+          <p className="text-xs text-muted-foreground">
+            USDT·BTC 등으로 거래한 가격은 거래일(또는 31일 안에서 그 이전 가장 가까운 날)의 환율로 원화 환산합니다. 일주일 넘게 지난 환율을 쓰면 거래 점검에서 알려 줍니다.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {rates.length > 0 && (
+            <Button variant="ghost" onClick={onClear}>
+              환율표 비우기
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => inputRef.current?.click()}>
+            환율 CSV 불러오기
+          </Button>
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={handleFileSelect}
+          />
+        </div>
+      </div>
+      <ul className="list-disc space-y-1 pl-5 text-xs text-muted-foreground">
+        <li>CSV 형식: date, currency, rate (1 통화당 원화). 예: 2024-03-01,USDT,1331.5</li>
+        {bundled.map((item) => (
+          <li key={item.currency}>
+            내장 환율: {item.currency}(USDT·USDC 포함) {item.from.slice(0, 4)}~{item.to.slice(0, 4)}년
+            연평균 근사값뿐입니다. {Number(item.to.slice(0, 4)) + 1}년 이후 거래와 BTC·ETH 등 코인으로 거래한
+            가격은 환율 CSV를 불러와야 원화로 환산됩니다. 업로드한 환율이 있으면 그 값을 먼저 씁니다.
+          </li>
+        ))}
+      </ul>
+      {summary.length > 0 && (
+        <div className="overflow-x-auto rounded-xl border border-border/70">
+          <table className="w-full text-xs">
+            <thead className="bg-muted/40 text-muted-foreground">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium">통화</th>
+                <th className="px-3 py-2 text-right font-medium">환율 수</th>
+                <th className="px-3 py-2 text-left font-medium">기간</th>
+                <th className="px-3 py-2 text-right font-medium">최근 환율</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.map((item) => (
+                <tr key={item.currency} className="border-t border-border/60">
+                  <td className="px-3 py-2 font-medium">{item.currency}</td>
+                  <td className="px-3 py-2 text-right">{item.count}</td>
+                  <td className="px-3 py-2">
+                    {item.from} ~ {item.to}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {item.latest.toLocaleString("ko-KR", { maximumFractionDigits: 4 })} 원
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {message && <p className="text-xs font-medium text-primary">{message}</p>}
+      {missingCount > 0 && (
+        <p className="text-xs font-medium text-destructive">
+          환율을 찾지 못한 거래 {missingCount}건은 원화 단가 0으로 계산됩니다. 해당 통화의 환율표를 불러오세요.
+        </p>
+      )}
+    </div>
+  )
+}
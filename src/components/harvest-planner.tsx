@@ -0,0 +1,134 @@
+"use client"
+
+import { useMemo, useState } from "react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import type { CostBasisResult } from "@/lib/cost-basis"
+import { formatCurrency } from "@/lib/format"
+import { planHarvest } from "@/lib/harvest-plan"
+import type { SimulationInput } from "@/lib/simulation"
+import { UNKNOWN_ASSET_LABEL } from "@/lib/trades"
+
+type HarvestPlannerProps = {
+  input: SimulationInput
+  result: CostBasisResult
+  /** 시뮬레이터에 입력한 자산별 현재가 */
+  prices: Map<string, number>
+}
+
+const formatAmount = (value: number) => value.toLocaleString("ko-KR", { maximumFractionDigits: 8 })
+
+export function HarvestPlanner({ input, result, prices }: HarvestPlannerProps) {
+  const { deduction } = input.profile
+  // 직접 고치기 전까지는 null로 두어 세금 규칙을 바꾸면 그 규칙의 기본공제를 따라간다
+  const [editedTarget, setEditedTarget] = useState<string | null>(null)
+  const targetInput = editedTarget ?? String(deduction)
+
+  const parsedTarget = Number.parseFloat(targetInput)
+  const target = Number.isFinite(parsedTarget) ? parsedTarget : deduction
+  const plan = useMemo(
+    () => planHarvest(input, result, prices, target),
+    [input, prices, result, target]
+  )
+  const afterTaxableGain = plan.after.report?.taxableGain ?? 0
+  const afterTax = plan.after.report?.tax ?? 0
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium text-foreground">연말 매도 계획</p>
+      <p className="text-xs text-muted-foreground">
+        {plan.year}년 과세 대상 소득(기본공제 전)을 목표에 맞추도록 자산·로트별 매도 수량을 제안합니다.
+        목표보다 이익이 적으면 이익 로트를 팔아 공제를 채우고, 많으면 손실 로트를 팔아 상쇄합니다.
+      </p>
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex items-center gap-2 text-xs text-muted-foreground">
+          목표 과세 대상 소득
+          <Input
+            type="number"
+            step="any"
+            inputMode="decimal"
+            className="h-8 w-40 text-right"
+            value={targetInput}
+            onChange={(event) => setEditedTarget(event.target.value)}
+          />
+          원
+        </label>
+        <Button variant="outline" size="sm" onClick={() => setEditedTarget(null)}>
+          기본공제 한도
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => setEditedTarget("0")}>
+          0원
+        </Button>
+      </div>
+      {plan.sales.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          {prices.size === 0
+            ? "위 표에 현재가를 입력하면 매도 계획을 계산합니다."
+            : plan.reached
+              ? "실제 거래만으로 이미 목표에 맞습니다."
+              : "목표에 맞추려고 팔 만한 보유 로트가 없습니다."}
+        </p>
+      ) : (
+        <div className="overflow-x-auto rounded-xl border border-border/70">
+          <table className="w-full text-xs">
+            <thead className="bg-muted/40 text-muted-foreground">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium">자산</th>
+                <th className="px-3 py-2 text-left font-medium">로트 취득일</th>
+                <th className="px-3 py-2 text-right font-medium">로트 단가</th>
+                <th className="px-3 py-2 text-right font-medium">매도 수량</th>
+                <th className="px-3 py-2 text-right font-medium">실현 손익</th>
+              </tr>
+            </thead>
+            <tbody>
+              {plan.sales.flatMap((sale) =>
+                sale.lots.map((lot, index) => (
+                  <tr key={`${sale.asset}-${lot.lotId}`} className="border-t border-border/60">
+                    <td className="px-3 py-2 font-medium">
+                      {index === 0 ? sale.asset || UNKNOWN_ASSET_LABEL : ""}
+                    </td>
+                    <td className="px-3 py-2">{lot.date}</td>
+                    <td className="px-3 py-2 text-right">{formatCurrency(lot.unitCost)} 원</td>
+                    <td className="px-3 py-2 text-right">{formatAmount(lot.amount)}</td>
+                    <td className={`px-3 py-2 text-right ${lot.gain < 0 ? "text-destructive" : ""}`}>
+                      {formatCurrency(lot.gain)} 원
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <div className="grid gap-2 text-xs sm:grid-cols-2">
+        <div className="rounded-xl border border-border/70 p-3">
+          <p className="text-muted-foreground">계획 전</p>
+          <p className="font-medium">
+            과세 대상 소득 {formatCurrency(plan.before.taxableGain)}원 · 세금 {formatCurrency(plan.before.tax)}원
+          </p>
+        </div>
+        <div className="rounded-xl border border-border/70 p-3">
+          <p className="text-muted-foreground">계획대로 매도한 뒤</p>
+          <p className="font-medium">
+            과세 대상 소득 {formatCurrency(afterTaxableGain)}원 · 세금 {formatCurrency(afterTax)}원
+          </p>
+        </div>
+      </div>
+      {plan.sales.length > 0 && !plan.reached && (
+        <p className="text-xs font-medium text-destructive">
+          현재가를 입력한 보유 로트만으로는 목표에 닿지 않습니다.
+        </p>
+      )}
+      {result.method === "specificLot" ? (
+        <p className="text-xs text-muted-foreground">
+          실제로 매도할 때 매도별 로트 지정에서 위 로트를 같은 수량으로 지정하세요.
+        </p>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          선택한 산정 방법이 로트를 소진하는 순서대로 계산했습니다. 수수료는 반영하지 않았습니다.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,253 @@
+"use client"
+
+import { useMemo, useState } from "react"
+
+import { Button } from "@/components/ui/button"
+import { Select } from "@/components/ui/select"
+import {
+  AUTO_DETECT_FORMAT,
+  DUPLICATE_STRATEGY_LABELS,
+  IMPORT_FIELD_LABELS,
+  IMPORT_FORMATS,
+  previewImport,
+  resolveImportFormat,
+  type ColumnMapping,
+  type AcceptedImportRow,
+  type CsvTable,
+  type DuplicateStrategy,
+  type ImportField,
+  type ImportFormatId,
+} from "@/lib/importers"
+import { TRADE_TYPE_LABELS } from "@/lib/trades"
+
+// 미리보기 목록은 앞부분만 그린다
+const PREVIEW_LIMIT = 100
+
+// 저가 코인이나 USDT 호가 단가가 0으로 보이지 않게 소수점까지 보여 준다
+const formatPrice = (value: number) => value.toLocaleString("ko-KR", { maximumFractionDigits: 8 })
+
+type ImportPreviewProps = {
+  fileName: string
+  table: CsvTable
+  existingFingerprints: Set<string>
+  onConfirm: (
+    rows: AcceptedImportRow[],
+    strategy: DuplicateStrategy,
+    summary: { formatLabel: string; rejected: number }
+  ) => void
+  onCancel: () => void
+}
+
+export function ImportPreview({
+  fileName,
+  table,
+  existingFingerprints,
+  onConfirm,
+  onCancel,
+}: ImportPreviewProps) {
+  const [formatId, setFormatId] = useState<ImportFormatId | typeof AUTO_DETECT_FORMAT>(
+    AUTO_DETECT_FORMAT
+  )
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null)
+  const [includeFlagged, setIncludeFlagged] = useState(true)
+  const [duplicateStrategy, setDuplicateStrategy] = useState<DuplicateStrategy>("skip")
+
+  const format = resolveImportFormat(table.header, formatId)
+  const preview = useMemo(
+    () => previewImport(table, format, mapping ?? undefined),
+    [format, mapping, table]
+  )
+  const flagged = preview.accepted.filter((item) => item.warnings.length > 0)
+  const confirmed = includeFlagged
+    ? preview.accepted
+    : preview.accepted.filter((item) => item.warnings.length === 0)
+  const duplicateCount = confirmed.filter((item) =>
+    existingFingerprints.has(item.fingerprint)
+  ).length
+  const newCount = confirmed.length - duplicateCount
+
+  const handleMappingChange = (field: ImportField, idx: number) => {
+    setMapping({ ...preview.mapping, [field]: idx })
+  }
+
+  return (
+    <div className="space-y-4 rounded-xl border border-primary/30 bg-primary/5 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <p className="text-sm font-semibold text-foreground">가져오기 미리보기 · {fileName}</p>
+          <p className="text-xs text-muted-foreground">
+            읽은 행 {preview.accepted.length}건 · 확인 필요 {flagged.length}건 · 제외{" "}
+            {preview.rejected.length}건 · 이미 있는 거래{" "}
+            {preview.accepted.filter((item) => existingFingerprints.has(item.fingerprint)).length}건
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-muted-foreground">
+          형식
+          <Select
+            className="h-8 w-[170px]"
+            value={formatId}
+            onChange={(event) => {
+              setFormatId(event.target.value as ImportFormatId | typeof AUTO_DETECT_FORMAT)
+              setMapping(null)
+            }}
+          >
+            <option value={AUTO_DETECT_FORMAT}>
+              자동 감지 ({resolveImportFormat(table.header, AUTO_DETECT_FORMAT).label})
+            </option>
+            {IMPORT_FORMATS.map((candidate) => (
+              <option key={candidate.id} value={candidate.id}>
+                {candidate.label}
+              </option>
+            ))}
+          </Select>
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs font-medium text-foreground">열 매핑</p>
+        <div className="grid gap-2 sm:grid-cols-3">
+          {(Object.keys(IMPORT_FIELD_LABELS) as ImportField[]).map((field) => (
+            <label key={field} className="flex items-center gap-2 text-xs text-muted-foreground">
+              <span className="w-20 shrink-0">{IMPORT_FIELD_LABELS[field]}</span>
+              <Select
+                className="h-8"
+                value={preview.mapping[field]}
+                onChange={(event) => handleMappingChange(field, Number(event.target.value))}
+              >
+                <option value={-1}>(없음)</option>
+                {table.header.map((column, idx) => (
+                  <option key={`${column}-${idx}`} value={idx}>
+                    {column || `열 ${idx + 1}`}
+                  </option>
+                ))}
+              </Select>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {preview.accepted.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-foreground">읽은 거래</p>
+          <div className="max-h-72 overflow-auto rounded-lg border border-border/70 bg-background/60">
+            <table className="w-full text-xs">
+              <thead className="sticky top-0 bg-muted text-muted-foreground">
+                <tr>
+                  <th className="px-2 py-1.5 text-left font-medium">행</th>
+                  <th className="px-2 py-1.5 text-left font-medium">날짜</th>
+                  <th className="px-2 py-1.5 text-left font-medium">계정</th>
+                  <th className="px-2 py-1.5 text-left font-medium">자산</th>
+                  <th className="px-2 py-1.5 text-left font-medium">구분</th>
+                  <th className="px-2 py-1.5 text-right font-medium">수량</th>
+                  <th className="px-2 py-1.5 text-right font-medium">단가</th>
+                  <th className="px-2 py-1.5 text-right font-medium">수수료</th>
+                  <th className="px-2 py-1.5 text-left font-medium">확인 필요</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.accepted.slice(0, PREVIEW_LIMIT).map(({ line, row, fingerprint, warnings }) => (
+                  <tr
+                    key={line}
+                    className={`border-t border-border/60 ${
+                      existingFingerprints.has(fingerprint)
+                        ? "text-muted-foreground"
+                        : warnings.length > 0
+                          ? "bg-amber-500/10"
+                          : ""
+                    }`}
+                  >
+                    <td className="px-2 py-1.5 text-muted-foreground">{line}</td>
+                    <td className="px-2 py-1.5">{row.date}</td>
+                    <td className="px-2 py-1.5">{row.account || "-"}</td>
+                    <td className="px-2 py-1.5">{row.asset}</td>
+                    <td className="px-2 py-1.5">{TRADE_TYPE_LABELS[row.type]}</td>
+                    <td className="px-2 py-1.5 text-right">{row.amount}</td>
+                    <td className="px-2 py-1.5 text-right">
+                      {formatPrice(row.price)} {row.quoteCurrency}
+                    </td>
+                    <td className="px-2 py-1.5 text-right">
+                      {row.fee} {row.feeCurrency === "asset" ? row.asset : row.quoteCurrency}
+                    </td>
+                    <td className="px-2 py-1.5 text-amber-600 dark:text-amber-400">
+                      {existingFingerprints.has(fingerprint) && (
+                        <span className="mr-1 text-muted-foreground">이미 있음.</span>
+                      )}
+                      {warnings.join(" ")}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {preview.accepted.length > PREVIEW_LIMIT && (
+            <p className="text-xs text-muted-foreground">
+              처음 {PREVIEW_LIMIT}건만 표시합니다.
+            </p>
+          )}
+        </div>
+      )}
+
+      {preview.rejected.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-foreground">제외되는 행</p>
+          <ul className="max-h-48 space-y-1 overflow-auto rounded-lg border border-border/70 bg-background/60 p-2 text-xs">
+            {preview.rejected.slice(0, PREVIEW_LIMIT).map(({ line, cells, reason }) => (
+              <li key={line} className="flex gap-2">
+                <span className="shrink-0 text-muted-foreground">{line}행</span>
+                <span className="font-medium text-destructive">{reason}</span>
+                <span className="truncate text-muted-foreground">{cells.join(", ")}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2 text-xs text-muted-foreground">
+            <input
+              type="checkbox"
+              className="size-4 accent-primary"
+              checked={includeFlagged}
+              onChange={(event) => setIncludeFlagged(event.target.checked)}
+            />
+            확인 필요 행도 추가
+          </label>
+          {duplicateCount > 0 && (
+            <label className="flex items-center gap-2 text-xs text-muted-foreground">
+              이미 있는 {duplicateCount}건
+              <Select
+                className="h-8 w-[150px]"
+                value={duplicateStrategy}
+                onChange={(event) => setDuplicateStrategy(event.target.value as DuplicateStrategy)}
+              >
+                {Object.entries(DUPLICATE_STRATEGY_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </Select>
+            </label>
+          )}
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={onCancel}>
+            취소
+          </Button>
+          <Button
+            size="sm"
+            disabled={confirmed.length === 0}
+            onClick={() =>
+              onConfirm(confirmed, duplicateStrategy, {
+                formatLabel: preview.format.label,
+                rejected: preview.rejected.length,
+              })
+            }
+          >
+            새 거래 {newCount}건 추가
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,75 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import type { Lot, LotSelections } from "@/lib/cost-basis"
+import { formatCurrency } from "@/lib/format"
+import { normalizeAsset, sortTradesByDate, type Trade } from "@/lib/trades"
+
+type LotPickerProps = {
+  trades: Trade[]
+  /** 매도 id별로 그 매도 직전에 남아 있던 로트 */
+  availableLots: Map<string, Lot[]>
+  selections: LotSelections
+  onChange: (saleId: string, lotId: string, amount: number) => void
+}
+
+const formatAmount = (value: number) => value.toLocaleString("ko-KR", { maximumFractionDigits: 8 })
+
+export function LotPicker({ trades, availableLots, selections, onChange }: LotPickerProps) {
+  const sorted = sortTradesByDate(trades).filter((trade) => trade.amount > 0)
+  const sales = sorted.filter((trade) => trade.type === "sell")
+
+  if (sales.length === 0) {
+    return <p className="text-xs text-muted-foreground">로트를 지정할 매도 거래가 없습니다.</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      {sales.map((sale) => {
+        const asset = normalizeAsset(sale.asset)
+        const candidates = availableLots.get(sale.id) ?? []
+        const selected = selections[sale.id] ?? []
+
+        return (
+          <div key={sale.id} className="space-y-2 rounded-xl border border-border/70 bg-muted/30 p-3">
+            <p className="text-xs font-medium text-foreground">
+              {sale.date} {asset} 매도 {sale.amount} @ {formatCurrency(sale.price)} 원
+            </p>
+            {candidates.length === 0 ? (
+              <p className="text-xs text-muted-foreground">이 매도 시점에 남은 로트가 없습니다.</p>
+            ) : (
+              <div className="grid gap-2 sm:grid-cols-2">
+                {candidates.map((lot) => (
+                  <label
+                    key={lot.id}
+                    className="flex items-center justify-between gap-3 text-xs text-muted-foreground"
+                  >
+                    <span className="shrink-0">
+                      {lot.date}
+                      {lot.deemed && " (기초 보유)"} · {formatAmount(lot.amount)} 남음 @{" "}
+                      {formatCurrency(lot.unitCost)} 원
+                    </span>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={lot.amount}
+                      step="any"
+                      inputMode="decimal"
+                      className="h-8 w-28"
+                      placeholder="0"
+                      defaultValue={selected.find((item) => item.lotId === lot.id)?.amount || ""}
+                      onChange={(event) => {
+                        const parsed = Number.parseFloat(event.target.value)
+                        onChange(sale.id, lot.id, Number.isFinite(parsed) ? parsed : 0)
+                      }}
+                    />
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,195 @@
+"use client"
+
+import { useMemo } from "react"
+import { Plus, Trash2 } from "lucide-react"
+import type { ColumnDef } from "@tanstack/react-table"
+
+import { Button } from "@/components/ui/button"
+import { DataTable } from "@/components/ui/data-table"
+import { Input } from "@/components/ui/input"
+import { formatCurrency } from "@/lib/format"
+import { deemedUnitCost, type OpeningBalance } from "@/lib/opening-balances"
+
+type OpeningBalanceTableProps = {
+  balances: OpeningBalance[]
+  onChange: (id: string, patch: Partial<OpeningBalance>) => void
+  onAdd: () => void
+  onDelete: (id: string) => void
+}
+
+const parseInput = (value: string) => {
+  const parsed = Number.parseFloat(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+export function OpeningBalanceTable({
+  balances,
+  onChange,
+  onAdd,
+  onDelete,
+}: OpeningBalanceTableProps) {
+  const columns: ColumnDef<OpeningBalance>[] = useMemo(
+    () => [
+      {
+        accessorKey: "asset",
+        header: "자산",
+        enableSorting: true,
+        meta: { headerClassName: "w-[110px]", className: "pr-4" },
+        cell: ({ row }) => (
+          <Input
+            value={row.original.asset}
+            onChange={(event) =>
+              onChange(row.original.id, { asset: event.target.value.toUpperCase() })
+            }
+            placeholder="BTC"
+          />
+        ),
+      },
+      {
+        accessorKey: "date",
+        header: "기준일",
+        enableSorting: true,
+        meta: { headerClassName: "w-[140px]", className: "pr-4" },
+        cell: ({ row }) => (
+          <Input
+            type="date"
+            value={row.original.date}
+            onChange={(event) => onChange(row.original.id, { date: event.target.value })}
+          />
+        ),
+      },
+      {
+        accessorKey: "account",
+        header: "계정",
+        enableSorting: true,
+        meta: { headerClassName: "w-[120px]", className: "pr-4" },
+        cell: ({ row }) => (
+          <Input
+            value={row.original.account}
+            onChange={(event) => onChange(row.original.id, { account: event.target.value })}
+            placeholder="업비트"
+          />
+        ),
+      },
+      {
+        accessorKey: "amount",
+        header: "수량",
+        enableSorting: true,
+        meta: { headerClassName: "w-[130px]", className: "pr-4" },
+        cell: ({ row }) => (
+          <Input
+            type="number"
+            min={0}
+            step="any"
+            inputMode="decimal"
+            value={row.original.amountInput}
+            onChange={(event) =>
+              onChange(row.original.id, {
+                amountInput: event.target.value,
+                amount: parseInput(event.target.value) ?? 0,
+              })
+            }
+            placeholder="0.00"
+          />
+        ),
+      },
+      {
+        accessorKey: "actualUnitCost",
+        header: "실제 취득단가",
+        enableSorting: false,
+        meta: { headerClassName: "w-[150px]", className: "pr-4" },
+        cell: ({ row }) => (
+          <Input
+            type="number"
+            min={0}
+            step="any"
+            inputMode="decimal"
+            value={row.original.actualUnitCostInput}
+            onChange={(event) =>
+              onChange(row.original.id, {
+                actualUnitCostInput: event.target.value,
+                actualUnitCost: parseInput(event.target.value),
+              })
+            }
+            placeholder="모름"
+          />
+        ),
+      },
+      {
+        accessorKey: "deemedUnitPrice",
+        header: "기준일 시가",
+        enableSorting: false,
+        meta: { headerClassName: "w-[150px]", className: "pr-4" },
+        cell: ({ row }) => (
+          <Input
+            type="number"
+            min={0}
+            step="any"
+            inputMode="decimal"
+            value={row.original.deemedUnitPriceInput}
+            onChange={(event) =>
+              onChange(row.original.id, {
+                deemedUnitPriceInput: event.target.value,
+                deemedUnitPrice: parseInput(event.target.value) ?? 0,
+              })
+            }
+            placeholder="0"
+          />
+        ),
+      },
+      {
+        id: "appliedUnitCost",
+        header: "적용 단가 (KRW)",
+        enableSorting: false,
+        meta: { headerClassName: "w-[150px]", className: "pr-4 text-right" },
+        cell: ({ row }) => (
+          <span className="font-medium text-foreground/90">
+            {formatCurrency(deemedUnitCost(row.original))} 원
+          </span>
+        ),
+      },
+      {
+        id: "actions",
+        header: "",
+        enableSorting: false,
+        meta: { headerClassName: "w-[60px]", className: "text-right" },
+        cell: ({ row }) => (
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            aria-label="Delete opening balance"
+            onClick={() => onDelete(row.original.id)}
+          >
+            <Trash2 className="size-4" />
+          </Button>
+        ),
+      },
+    ],
+    [onChange, onDelete]
+  )
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold">기초 보유분 (의제취득가액)</h3>
+          <p className="text-xs text-muted-foreground">
+            과세 시행 전부터 보유한 코인은 실제 취득단가와 기준일 시가 중 큰 금액을 취득가액으로 봅니다.
+          </p>
+        </div>
+        <Button variant="outline" onClick={onAdd}>
+          <Plus className="size-4" />
+          기초 보유분 추가
+        </Button>
+      </div>
+      {balances.length > 0 && (
+        <DataTable
+          data={balances}
+          columns={columns}
+          getRowId={(row) => row.id}
+          emptyMessage="기초 보유분이 없습니다."
+        />
+      )}
+    </div>
+  )
+}
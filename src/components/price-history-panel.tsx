@@ -0,0 +1,134 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Trash2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { parsePriceFile, type PriceHistory, type PriceSeries } from "@/lib/price-history"
+
+type PriceHistoryPanelProps = {
+  history: PriceHistory
+  error: string | null
+  /** 시세 범위를 크게 벗어난 거래 수 */
+  deviationCount: number
+  onAdd: (series: PriceSeries[]) => void
+  onRemove: (asset: string) => void
+}
+
+const readFile = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result || ""))
+    reader.onerror = () => reject(reader.error)
+    reader.readAsText(file, "utf-8")
+  })
+
+export function PriceHistoryPanel({
+  history,
+  error,
+  deviationCount,
+  onAdd,
+  onRemove,
+}: PriceHistoryPanelProps) {
+  const inputRef = useRef<HTMLInputElement | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const series = Object.values(history).sort((a, b) => a.asset.localeCompare(b.asset))
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = [...(event.target.files ?? [])]
+    event.target.value = ""
+    if (files.length === 0) return
+
+    const notes: string[] = []
+    const loaded: PriceSeries[] = []
+    for (const file of files) {
+      const parsed = parsePriceFile(file.name, await readFile(file))
+      if (parsed.error) {
+        notes.push(`${file.name}: ${parsed.error}`)
+        continue
+      }
+      loaded.push(...parsed.series)
+      notes.push(
+        `${file.name}: ${parsed.series.map((item) => `${item.asset} ${item.candles.length}일`).join(", ")}` +
+          (parsed.skipped > 0 ? ` (읽지 못한 ${parsed.skipped}행 제외)` : "")
+      )
+    }
+    if (loaded.length > 0) onAdd(loaded)
+    setMessage(notes.join(" · "))
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h3 className="text-lg font-semibold">일별 시세</h3>
+          <p className="text-xs text-muted-foreground">
+            자산별 일별 시세(OHLC)로 연말 보유분을 평가하고, 입력한 단가가 당일 시세와 크게 다른 거래를 표시합니다. 시세는 이 브라우저에 저장되어 모든 작업공간에서 함께 씁니다.
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => inputRef.current?.click()}>
+          시세 파일 불러오기
+        </Button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          multiple
+          className="hidden"
+          onChange={handleFileSelect}
+        />
+      </div>
+      <ul className="list-disc space-y-1 pl-5 text-xs text-muted-foreground">
+        <li>CSV 열: date, open, high, low, close (선택: asset, quote). asset 열이 없으면 파일 이름(BTC.csv, ETH-USDT.csv)으로 자산을 정합니다.</li>
+        <li>JSON: [{"{"}&quot;date&quot;, &quot;open&quot;, &quot;high&quot;, &quot;low&quot;, &quot;close&quot;{"}"}] 또는 {"{"}&quot;asset&quot;, &quot;quote&quot;, &quot;candles&quot;: [...]{"}"}</li>
+        <li>원화가 아닌 시세는 위 환율표로 환산합니다.</li>
+      </ul>
+      {series.length > 0 && (
+        <div className="overflow-x-auto rounded-xl border border-border/70">
+          <table className="w-full text-xs">
+            <thead className="bg-muted/40 text-muted-foreground">
+              <tr>
+                <th className="px-3 py-2 text-left font-medium">자산</th>
+                <th className="px-3 py-2 text-left font-medium">통화</th>
+                <th className="px-3 py-2 text-right font-medium">일수</th>
+                <th className="px-3 py-2 text-left font-medium">기간</th>
+                <th className="px-3 py-2 text-left font-medium">파일</th>
+                <th className="px-3 py-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {series.map((item) => (
+                <tr key={item.asset} className="border-t border-border/60">
+                  <td className="px-3 py-2 font-medium">{item.asset}</td>
+                  <td className="px-3 py-2">{item.quoteCurrency}</td>
+                  <td className="px-3 py-2 text-right">{item.candles.length}</td>
+                  <td className="px-3 py-2">
+                    {item.candles[0]?.date} ~ {item.candles.at(-1)?.date}
+                  </td>
+                  <td className="px-3 py-2 text-muted-foreground">{item.fileName}</td>
+                  <td className="px-3 py-2 text-right">
+                    <Button
+                      variant="ghost"
+                      size="icon-sm"
+                      aria-label="Delete price series"
+                      onClick={() => onRemove(item.asset)}
+                    >
+                      <Trash2 className="size-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {message && <p className="text-xs font-medium text-primary">{message}</p>}
+      {error && <p className="text-xs font-medium text-destructive">{error}</p>}
+      {deviationCount > 0 && (
+        <p className="text-xs font-medium text-destructive">
+          입력한 단가가 당일 시세 범위를 크게 벗어난 거래가 {deviationCount}건 있습니다. 거래 목록에서 확인하세요.
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,264 @@
+"use client"
+
+import { useMemo, useState } from "react"
+
+import { HarvestPlanner } from "@/components/harvest-planner"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import type { CostBasisOptions, CostBasisResult } from "@/lib/cost-basis"
+import { formatCurrency } from "@/lib/format"
+import type { IncomeYear } from "@/lib/income"
+import {
+  remainingDeduction,
+  sellableWithinDeduction,
+  simulateSales,
+  type SaleScenario,
+  type SimulationInput,
+} from "@/lib/simulation"
+import type { LossCarryForward, TaxYearReport } from "@/lib/tax"
+import { isYearInEffect, type TaxRuleProfile } from "@/lib/tax-rules"
+import { taxYearOf, todayIsoDate, UNKNOWN_ASSET_LABEL, type Trade } from "@/lib/trades"
+
+const EPSILON = 1e-9
+
+type SellSimulatorProps = {
+  result: CostBasisResult
+  reports: TaxYearReport[]
+  carryForwards: LossCarryForward[]
+  trades: Trade[]
+  options: CostBasisOptions
+  profile: TaxRuleProfile
+  incomeYears: IncomeYear[]
+  /** 시세 파일의 자산별 최근 종가(원화) */
+  latestPrices: Map<string, { date: string; close: number }>
+}
+
+const parseInput = (value: string | undefined) => {
+  const parsed = Number.parseFloat(value ?? "")
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : 0
+}
+
+const formatAmount = (value: number) => value.toLocaleString("ko-KR", { maximumFractionDigits: 8 })
+
+type FullSaleTaxProps = {
+  input: SimulationInput
+  asset: string
+  amount: number
+  price: number
+}
+
+// 전량 매도는 엔진을 다시 돌리므로 행마다 따로 기억해 두고, 가격을 고친 자산만 다시 계산한다
+function FullSaleTax({ input, asset, amount, price }: FullSaleTaxProps) {
+  const simulation = useMemo(
+    () => (price > 0 ? simulateSales(input, [{ asset, amount, price }]) : null),
+    [amount, asset, input, price]
+  )
+  return <>{simulation ? `${formatCurrency(simulation.extraTax)} 원` : "-"}</>
+}
+
+export function SellSimulator({
+  result,
+  reports,
+  carryForwards,
+  trades,
+  options,
+  profile,
+  incomeYears,
+  latestPrices,
+}: SellSimulatorProps) {
+  const [priceInputs, setPriceInputs] = useState<Record<string, string>>({})
+  const [sellInputs, setSellInputs] = useState<Record<string, string>>({})
+
+  const date = todayIsoDate()
+  const holdings = useMemo(
+    () => result.assets.filter((asset) => asset.holdingAmount > EPSILON),
+    [result]
+  )
+
+  const input = useMemo(
+    () => ({
+      trades,
+      options,
+      profile,
+      incomeYears,
+      baselineReports: reports,
+      carryForwards,
+      date,
+    }),
+    [carryForwards, date, incomeYears, options, profile, reports, trades]
+  )
+  const year = taxYearOf(date)
+  const inEffect = isYearInEffect(profile, year)
+  const room = remainingDeduction(input, year)
+
+  const rows = useMemo(
+    () =>
+      holdings.map((holding) => {
+        const price = parseInput(priceInputs[holding.asset])
+        const marketValue = holding.holdingAmount * price
+        return {
+          asset: holding.asset,
+          amount: holding.holdingAmount,
+          cost: holding.holdingCost,
+          price,
+          marketValue,
+          unrealizedGain: marketValue - holding.holdingCost,
+          sellable:
+            price > 0
+              ? sellableWithinDeduction(result, holding.asset, price, room, {
+                  netAcrossAssets: profile.lossNetting.netAcrossAssets,
+                  year,
+                })
+              : null,
+        }
+      }),
+    [holdings, priceInputs, profile.lossNetting.netAcrossAssets, result, room, year]
+  )
+
+  const prices = useMemo(
+    () => new Map(rows.filter((row) => row.price > 0).map((row) => [row.asset, row.price])),
+    [rows]
+  )
+
+  const partialSale = useMemo(() => {
+    const scenarios: SaleScenario[] = rows.map((row) => ({
+      asset: row.asset,
+      amount: Math.min(row.amount, parseInput(sellInputs[row.asset])),
+      price: row.price,
+    }))
+    return scenarios.some((scenario) => scenario.amount > 0 && scenario.price > 0)
+      ? simulateSales(input, scenarios)
+      : null
+  }, [input, rows, sellInputs])
+
+  const handleLoadPrices = () => {
+    setPriceInputs((prev) => {
+      const next = { ...prev }
+      for (const holding of holdings) {
+        const latest = latestPrices.get(holding.asset)
+        if (latest) next[holding.asset] = String(Math.round(latest.close * 100) / 100)
+      }
+      return next
+    })
+  }
+
+  if (holdings.length === 0) {
+    return <p className="text-xs text-muted-foreground">보유 중인 자산이 없습니다.</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs text-muted-foreground">
+          {year}년에 지금 판다고 가정합니다.{" "}
+          {inEffect
+            ? `실제 거래 후 추가로 실현해도 세금이 없는 이익은 ${formatCurrency(room)}원입니다.`
+            : "이 해는 선택한 규칙의 과세 기간이 아니라 추가 세액이 없습니다."}
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleLoadPrices}
+          disabled={latestPrices.size === 0}
+        >
+          시세 파일에서 불러오기
+        </Button>
+      </div>
+      <div className="overflow-x-auto rounded-xl border border-border/70">
+        <table className="w-full text-xs">
+          <thead className="bg-muted/40 text-muted-foreground">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium">자산</th>
+              <th className="px-3 py-2 text-right font-medium">보유 수량</th>
+              <th className="px-3 py-2 text-right font-medium">보유 원가</th>
+              <th className="px-3 py-2 text-right font-medium">현재가 (원)</th>
+              <th className="px-3 py-2 text-right font-medium">평가액</th>
+              <th className="px-3 py-2 text-right font-medium">미실현 손익</th>
+              <th className="px-3 py-2 text-right font-medium">전량 매도 시 추가 세액</th>
+              <th className="px-3 py-2 text-right font-medium">공제 안에서 매도 가능</th>
+              <th className="px-3 py-2 text-right font-medium">매도 수량</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => {
+              const latest = latestPrices.get(row.asset)
+              return (
+                <tr key={row.asset} className="border-t border-border/60">
+                  <td className="px-3 py-2 font-medium">{row.asset || UNKNOWN_ASSET_LABEL}</td>
+                  <td className="px-3 py-2 text-right">{formatAmount(row.amount)}</td>
+                  <td className="px-3 py-2 text-right">{formatCurrency(row.cost)} 원</td>
+                  <td className="px-3 py-2 text-right">
+                    <Input
+                      type="number"
+                      min={0}
+                      step="any"
+                      inputMode="decimal"
+                      className="ml-auto h-8 w-32 text-right"
+                      aria-label={`${row.asset} current price`}
+                      placeholder="0"
+                      value={priceInputs[row.asset] ?? ""}
+                      onChange={(event) =>
+                        setPriceInputs((prev) => ({ ...prev, [row.asset]: event.target.value }))
+                      }
+                    />
+                    {latest && (
+                      <p className="mt-1 text-[11px] text-muted-foreground">
+                        시세 파일 {latest.date} 종가 {formatCurrency(latest.close)} 원
+                      </p>
+                    )}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {row.price > 0 ? `${formatCurrency(row.marketValue)} 원` : "-"}
+                  </td>
+                  <td
+                    className={`px-3 py-2 text-right ${row.price > 0 && row.unrealizedGain < 0 ? "text-destructive" : ""}`}
+                  >
+                    {row.price > 0 ? `${formatCurrency(row.unrealizedGain)} 원` : "-"}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    <FullSaleTax input={input} asset={row.asset} amount={row.amount} price={row.price} />
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {row.sellable === null
+                      ? "-"
+                      : row.sellable >= row.amount - EPSILON
+                        ? "전량"
+                        : formatAmount(row.sellable)}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    <Input
+                      type="number"
+                      min={0}
+                      max={row.amount}
+                      step="any"
+                      inputMode="decimal"
+                      className="ml-auto h-8 w-28 text-right"
+                      aria-label={`${row.asset} sell amount`}
+                      placeholder="0"
+                      value={sellInputs[row.asset] ?? ""}
+                      onChange={(event) =>
+                        setSellInputs((prev) => ({ ...prev, [row.asset]: event.target.value }))
+                      }
+                    />
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+      {partialSale && (
+        <p className="text-xs font-medium text-foreground">
+          입력한 수량을 모두 팔면 {partialSale.year}년 실현 손익이{" "}
+          {formatCurrency(partialSale.extraGain)}원 늘고 세금은 {formatCurrency(partialSale.extraTax)}원
+          늘어납니다.
+        </p>
+      )}
+      <p className="text-xs text-muted-foreground">
+        추가 세액은 선택한 산정 방법으로 오늘 날짜 매도를 더해 다시 계산한 값입니다. 공제 안에서 매도 가능한
+        수량은 수수료를 빼지 않은 어림값입니다.
+      </p>
+      <HarvestPlanner input={input} result={result} prices={prices} />
+    </div>
+  )
+}
@@ -0,0 +1,113 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import type { TaxRuleProfile } from "@/lib/tax-rules"
+
+type TaxProfileEditorProps = {
+  profile: TaxRuleProfile
+  onChange: (profile: TaxRuleProfile) => void
+}
+
+const parseNumber = (value: string) => {
+  const parsed = Number.parseFloat(value.replace(/,/g, ""))
+  return Number.isFinite(parsed) ? parsed : 0
+}
+
+export function TaxProfileEditor({ profile, onChange }: TaxProfileEditorProps) {
+  const update = (patch: Partial<TaxRuleProfile>) => onChange({ ...profile, ...patch })
+
+  return (
+    <div className="grid gap-3 rounded-xl border border-border/70 bg-muted/30 p-3 text-xs text-muted-foreground sm:grid-cols-3">
+      <label className="space-y-1">
+        <span>시나리오 이름</span>
+        <Input
+          className="h-8"
+          defaultValue={profile.name}
+          onChange={(event) => update({ name: event.target.value })}
+        />
+      </label>
+      <label className="space-y-1">
+        <span>기본공제 (원)</span>
+        <Input
+          className="h-8"
+          type="number"
+          min={0}
+          step="any"
+          defaultValue={profile.deduction}
+          onChange={(event) => update({ deduction: parseNumber(event.target.value) })}
+        />
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="space-y-1">
+          <span>소득세율 (%)</span>
+          <Input
+            className="h-8"
+            type="number"
+            min={0}
+            step="any"
+            defaultValue={profile.nationalRate * 100}
+            onChange={(event) => update({ nationalRate: parseNumber(event.target.value) / 100 })}
+          />
+        </label>
+        <label className="space-y-1">
+          <span>지방세율 (%)</span>
+          <Input
+            className="h-8"
+            type="number"
+            min={0}
+            step="any"
+            defaultValue={profile.localRate * 100}
+            onChange={(event) => update({ localRate: parseNumber(event.target.value) / 100 })}
+          />
+        </label>
+      </div>
+      <label className="space-y-1">
+        <span>시행일</span>
+        <Input
+          className="h-8"
+          type="date"
+          defaultValue={profile.effectiveFrom}
+          onChange={(event) => update({ effectiveFrom: event.target.value || "1900-01-01" })}
+        />
+      </label>
+      <label className="space-y-1">
+        <span>종료일 (비우면 계속 적용)</span>
+        <Input
+          className="h-8"
+          type="date"
+          defaultValue={profile.effectiveTo ?? ""}
+          onChange={(event) => update({ effectiveTo: event.target.value || null })}
+        />
+      </label>
+      <label className="flex items-center gap-2 self-end pb-2">
+        <input
+          type="checkbox"
+          className="size-4 accent-primary"
+          defaultChecked={profile.lossNetting.netAcrossAssets}
+          onChange={(event) =>
+            update({ lossNetting: { ...profile.lossNetting, netAcrossAssets: event.target.checked } })
+          }
+        />
+        <span>같은 해 자산 간 손익 통산</span>
+      </label>
+      <label className="space-y-1">
+        <span>결손금 이월 공제 (년, 0이면 없음)</span>
+        <Input
+          className="h-8"
+          type="number"
+          min={0}
+          step={1}
+          defaultValue={profile.lossNetting.carryForwardYears}
+          onChange={(event) =>
+            update({
+              lossNetting: {
+                ...profile.lossNetting,
+                carryForwardYears: Math.max(0, Math.floor(parseNumber(event.target.value))),
+              },
+            })
+          }
+        />
+      </label>
+    </div>
+  )
+}
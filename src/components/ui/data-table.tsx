@@ -1,15 +1,28 @@
 import * as React from "react"
 import {
+  Column,
   ColumnDef,
+  ColumnFiltersState,
+  FilterFn,
   flexRender,
   getCoreRowModel,
+  getFacetedRowModel,
+  getFacetedUniqueValues,
+  getFilteredRowModel,
+  getPaginationRowModel,
   getSortedRowModel,
+  PaginationState,
+  Row,
   SortingState,
+  TableMeta,
   useReactTable,
 } from "@tanstack/react-table"
-import { ArrowUpDown } from "lucide-react"
+import { ArrowUpDown, ChevronLeft, ChevronRight } from "lucide-react"
 
 import { cn } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select } from "@/components/ui/select"
 import {
   Table,
   TableBody,
@@ -19,11 +32,102 @@ import {
   TableRow,
 } from "@/components/ui/table"
 
+/** 열 정의의 meta로 넘기는 표시와 필터 설정 */
+export type DataTableColumnMeta = {
+  className?: string
+  headerClassName?: string
+  /** select는 열에 있는 값 중 하나로, dateRange는 YYYY-MM-DD 값의 시작·끝 날짜로 거른다. */
+  filterVariant?: "select" | "dateRange"
+  /** select 필터 목록에 값 대신 보여 줄 이름 */
+  filterLabel?: (value: string) => string
+}
+
+type DateRange = [from: string, to: string]
+
+const PAGE_SIZE_OPTIONS = [25, 50, 100, 200]
+
+// 빈 문자열도 하나의 값(예: 계정 미지정)으로 고를 수 있게 undefined일 때만 필터를 푼다
+const equalsValue: FilterFn<unknown> = (row, columnId, value) => row.getValue(columnId) === value
+equalsValue.autoRemove = (value) => value === undefined
+
+const inDateRange: FilterFn<unknown> = (row, columnId, [from, to]: DateRange) => {
+  const date = String(row.getValue(columnId) ?? "")
+  return (!from || date >= from) && (!to || date <= to)
+}
+inDateRange.autoRemove = (value?: DateRange) => !value || (!value[0] && !value[1])
+
+const columnMeta = <TData,>(column: Column<TData>) =>
+  column.columnDef.meta as DataTableColumnMeta | undefined
+
 type DataTableProps<TData> = {
   columns: ColumnDef<TData, any>[]
   data: TData[]
   emptyMessage?: string
   getRowId?: (row: TData, index: number) => string
+  /** 셀에서 table.options.meta로 읽는 값. 바뀌어도 열 정의는 그대로라 입력 중인 셀이 다시 마운트되지 않는다. */
+  meta?: TableMeta<TData>
+  /** 행 아래에 전체 너비로 덧붙일 내용. 없으면 null을 돌려준다. */
+  renderRowDetail?: (row: Row<TData>) => React.ReactNode
+  /** 검색창에 입력한 글자를 찾을 행의 문자열. 없으면 검색창을 보여 주지 않는다. */
+  getSearchText?: (row: TData) => string
+  searchPlaceholder?: string
+  pageSize?: number
+  /** 이 id의 행이 보이도록 필터를 풀고 그 행이 있는 페이지로 옮긴다. 새로 추가한 행을 보여 줄 때 쓴다. */
+  focusRowId?: string | null
+}
+
+function ColumnFilter<TData>({ column }: { column: Column<TData> }) {
+  const meta = columnMeta(column)
+  const header = column.columnDef.header
+  const label = typeof header === "string" ? header : column.id
+
+  if (meta?.filterVariant === "dateRange") {
+    const [from, to] = (column.getFilterValue() as DateRange | undefined) ?? ["", ""]
+    return (
+      <div className="flex items-center gap-1 text-xs text-muted-foreground">
+        <span className="shrink-0">{label}</span>
+        <Input
+          type="date"
+          className="h-8 w-[140px]"
+          aria-label={`${column.id} from`}
+          value={from}
+          onChange={(event) => column.setFilterValue([event.target.value, to])}
+        />
+        <span>~</span>
+        <Input
+          type="date"
+          className="h-8 w-[140px]"
+          aria-label={`${column.id} to`}
+          value={to}
+          onChange={(event) => column.setFilterValue([from, event.target.value])}
+        />
+      </div>
+    )
+  }
+
+  const values = [...column.getFacetedUniqueValues().keys()].sort((a, b) =>
+    String(a).localeCompare(String(b))
+  )
+  const selected = values.indexOf(column.getFilterValue())
+  const display = (value: unknown) => meta?.filterLabel?.(String(value)) ?? String(value)
+
+  return (
+    <Select
+      className="h-8 w-auto min-w-[120px]"
+      aria-label={`${column.id} filter`}
+      value={selected < 0 ? "" : String(selected)}
+      onChange={(event) =>
+        column.setFilterValue(event.target.value === "" ? undefined : values[Number(event.target.value)])
+      }
+    >
+      <option value="">{label}: 전체</option>
+      {values.map((value, index) => (
+        <option key={String(value)} value={index}>
+          {display(value)}
+        </option>
+      ))}
+    </Select>
+  )
 }
 
 export function DataTable<TData>({
@@ -31,80 +135,247 @@ export function DataTable<TData>({
   data,
   emptyMessage = "No data.",
   getRowId,
+  meta,
+  renderRowDetail,
+  getSearchText,
+  searchPlaceholder = "검색",
+  pageSize = 50,
+  focusRowId = null,
 }: DataTableProps<TData>) {
   const [sorting, setSorting] = React.useState<SortingState>([])
+  const [columnFilters, setColumnFilters] = React.useState<ColumnFiltersState>([])
+  const [globalFilter, setGlobalFilter] = React.useState("")
+  const [pagination, setPagination] = React.useState<PaginationState>({ pageIndex: 0, pageSize })
+  const [focusedRowId, setFocusedRowId] = React.useState<string | null>(null)
+
+  // 필터 종류에 맞는 필터 함수를 열 정의에 붙인다
+  const filterableColumns = React.useMemo(
+    () =>
+      columns.map((column) => {
+        const variant = (column.meta as DataTableColumnMeta | undefined)?.filterVariant
+        if (!variant || column.filterFn) return column
+        return {
+          ...column,
+          filterFn: (variant === "dateRange" ? inDateRange : equalsValue) as FilterFn<TData>,
+        }
+      }),
+    [columns]
+  )
+
+  // 행마다 검색 문자열을 한 번만 만든다. 행이 바뀌면 새 객체라 다시 만든다.
+  const searchTexts = React.useMemo(
+    () =>
+      getSearchText
+        ? new Map(data.map((row) => [row, getSearchText(row).toLowerCase()]))
+        : null,
+    [data, getSearchText]
+  )
+  const matchesSearch = React.useCallback<FilterFn<TData>>(
+    (row, _columnId, value: string) =>
+      searchTexts?.get(row.original)?.includes(value.trim().toLowerCase()) ?? true,
+    [searchTexts]
+  )
+
+  const resetPage = () => setPagination((prev) => ({ ...prev, pageIndex: 0 }))
 
   const table = useReactTable({
     data,
-    columns,
-    state: { sorting },
+    columns: filterableColumns,
+    state: { sorting, columnFilters, globalFilter, pagination },
     onSortingChange: setSorting,
+    onColumnFiltersChange: (updater) => {
+      setColumnFilters(updater)
+      resetPage()
+    },
+    onGlobalFilterChange: (updater) => {
+      setGlobalFilter(updater)
+      resetPage()
+    },
+    onPaginationChange: setPagination,
+    globalFilterFn: matchesSearch,
+    // 셀을 고칠 때마다 data가 바뀌므로 첫 페이지로 돌아가지 않게 한다
+    autoResetPageIndex: false,
     getCoreRowModel: getCoreRowModel(),
+    getFilteredRowModel: getFilteredRowModel(),
+    getFacetedRowModel: getFacetedRowModel(),
+    getFacetedUniqueValues: getFacetedUniqueValues(),
     getSortedRowModel: getSortedRowModel(),
+    getPaginationRowModel: getPaginationRowModel(),
     getRowId,
+    meta,
   })
 
+  const visibleRows = table.getPrePaginationRowModel().rows
+  const pageCount = table.getPageCount()
+
+  // 행을 지워 마지막 페이지가 사라지면 남은 마지막 페이지로 옮긴다
+  if (pagination.pageIndex > 0 && pagination.pageIndex >= pageCount) {
+    setPagination((prev) => ({ ...prev, pageIndex: Math.max(0, pageCount - 1) }))
+  }
+
+  if (focusRowId !== null && focusRowId !== focusedRowId) {
+    const index = visibleRows.findIndex((row) => row.id === focusRowId)
+    if (index >= 0) {
+      setFocusedRowId(focusRowId)
+      setPagination((prev) => ({ ...prev, pageIndex: Math.floor(index / prev.pageSize) }))
+    } else if (columnFilters.length > 0 || globalFilter) {
+      setColumnFilters([])
+      setGlobalFilter("")
+    } else {
+      setFocusedRowId(focusRowId)
+    }
+  }
+
+  const clearFilters = () => {
+    setColumnFilters([])
+    setGlobalFilter("")
+    resetPage()
+  }
+
+  const filterColumns = table.getAllLeafColumns().filter((column) => columnMeta(column)?.filterVariant)
+  const isFiltered = columnFilters.length > 0 || globalFilter !== ""
+  const showToolbar = getSearchText !== undefined || filterColumns.length > 0
+  const showPagination = isFiltered || data.length > PAGE_SIZE_OPTIONS[0]
+
   return (
-    <Table>
-      <TableHeader>
-        {table.getHeaderGroups().map((headerGroup) => (
-          <TableRow key={headerGroup.id} className="border-b border-border/80">
-            {headerGroup.headers.map((header) => {
-              const meta = header.column.columnDef.meta as
-                | { className?: string; headerClassName?: string }
-                | undefined
-              return (
-                <TableHead key={header.id} className={cn(meta?.headerClassName)}>
-                  {header.isPlaceholder ? null : header.column.getCanSort() ? (
-                    <button
-                      type="button"
-                      className="inline-flex items-center gap-1 text-xs font-medium uppercase tracking-wide text-muted-foreground transition-colors hover:text-foreground"
-                      onClick={header.column.getToggleSortingHandler()}
-                    >
-                      {flexRender(header.column.columnDef.header, header.getContext())}
-                      <ArrowUpDown
-                        className={cn(
-                          "size-3.5 transition-transform",
-                          header.column.getIsSorted() === "asc" && "rotate-180"
-                        )}
-                      />
-                    </button>
-                  ) : (
-                    <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
-                      {flexRender(header.column.columnDef.header, header.getContext())}
-                    </span>
-                  )}
-                </TableHead>
-              )
-            })}
-          </TableRow>
-        ))}
-      </TableHeader>
-      <TableBody>
-        {table.getRowModel().rows?.length ? (
-          table.getRowModel().rows.map((row) => (
-            <TableRow key={row.id}>
-              {row.getVisibleCells().map((cell) => {
-                const meta = cell.column.columnDef.meta as { className?: string } | undefined
+    <div className="space-y-3">
+      {showToolbar && data.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          {getSearchText && (
+            <Input
+              className="h-8 w-[200px]"
+              aria-label="Search rows"
+              placeholder={searchPlaceholder}
+              value={globalFilter}
+              onChange={(event) => table.setGlobalFilter(event.target.value)}
+            />
+          )}
+          {filterColumns.map((column) => (
+            <ColumnFilter key={column.id} column={column} />
+          ))}
+          {isFiltered && (
+            <Button variant="ghost" size="sm" onClick={clearFilters}>
+              필터 초기화
+            </Button>
+          )}
+        </div>
+      )}
+      <Table>
+        <TableHeader>
+          {table.getHeaderGroups().map((headerGroup) => (
+            <TableRow key={headerGroup.id} className="border-b border-border/80">
+              {headerGroup.headers.map((header) => {
+                const meta = columnMeta(header.column)
                 return (
-                  <TableCell key={cell.id} className={cn(meta?.className, "align-middle")}>
-                    {flexRender(cell.column.columnDef.cell, cell.getContext())}
-                  </TableCell>
+                  <TableHead key={header.id} className={cn(meta?.headerClassName)}>
+                    {header.isPlaceholder ? null : header.column.getCanSort() ? (
+                      <button
+                        type="button"
+                        className="inline-flex items-center gap-1 text-xs font-medium uppercase tracking-wide text-muted-foreground transition-colors hover:text-foreground"
+                        onClick={header.column.getToggleSortingHandler()}
+                      >
+                        {flexRender(header.column.columnDef.header, header.getContext())}
+                        <ArrowUpDown
+                          className={cn(
+                            "size-3.5 transition-transform",
+                            header.column.getIsSorted() === "asc" && "rotate-180"
+                          )}
+                        />
+                      </button>
+                    ) : (
+                      <span className="text-xs font-medium uppercase tracking-wide text-muted-foreground">
+                        {flexRender(header.column.columnDef.header, header.getContext())}
+                      </span>
+                    )}
+                  </TableHead>
                 )
               })}
             </TableRow>
-          ))
-        ) : (
-          <TableRow>
-            <TableCell
-              colSpan={columns.length}
-              className="py-6 text-center text-sm text-muted-foreground"
+          ))}
+        </TableHeader>
+        <TableBody>
+          {table.getRowModel().rows?.length ? (
+            table.getRowModel().rows.map((row) => {
+              const detail = renderRowDetail?.(row)
+              return (
+                <React.Fragment key={row.id}>
+                  <TableRow className={cn(detail && "border-b-0")}>
+                    {row.getVisibleCells().map((cell) => {
+                      const meta = columnMeta(cell.column)
+                      return (
+                        <TableCell key={cell.id} className={cn(meta?.className, "align-middle")}>
+                          {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                        </TableCell>
+                      )
+                    })}
+                  </TableRow>
+                  {detail && (
+                    <TableRow>
+                      <TableCell colSpan={row.getVisibleCells().length} className="pt-0">
+                        {detail}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </React.Fragment>
+              )
+            })
+          ) : (
+            <TableRow>
+              <TableCell
+                colSpan={columns.length}
+                className="py-6 text-center text-sm text-muted-foreground"
+              >
+                {data.length > 0 && isFiltered ? "조건에 맞는 행이 없습니다." : emptyMessage}
+              </TableCell>
+            </TableRow>
+          )}
+        </TableBody>
+      </Table>
+      {showPagination && (
+        <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+          <span>
+            {visibleRows.length.toLocaleString("ko-KR")}행
+            {isFiltered && ` (전체 ${data.length.toLocaleString("ko-KR")}행 중)`}
+          </span>
+          <div className="flex items-center gap-2">
+            <Select
+              className="h-8 w-[100px]"
+              aria-label="Rows per page"
+              value={pagination.pageSize}
+              onChange={(event) =>
+                setPagination({ pageIndex: 0, pageSize: Number(event.target.value) })
+              }
+            >
+              {PAGE_SIZE_OPTIONS.map((size) => (
+                <option key={size} value={size}>
+                  {size}행씩
+                </option>
+              ))}
+            </Select>
+            <Button
+              variant="outline"
+              size="icon-sm"
+              aria-label="Previous page"
+              disabled={!table.getCanPreviousPage()}
+              onClick={() => table.previousPage()}
+            >
+              <ChevronLeft className="size-4" />
+            </Button>
+            <span>
+              {pagination.pageIndex + 1} / {Math.max(1, pageCount)}
+            </span>
+            <Button
+              variant="outline"
+              size="icon-sm"
+              aria-label="Next page"
+              disabled={!table.getCanNextPage()}
+              onClick={() => table.nextPage()}
             >
-              {emptyMessage}
-            </TableCell>
-          </TableRow>
-        )}
-      </TableBody>
-    </Table>
+              <ChevronRight className="size-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
   )
 }
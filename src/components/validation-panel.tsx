@@ -0,0 +1,62 @@
+"use client"
+
+import { UNKNOWN_ASSET_LABEL } from "@/lib/trades"
+import {
+  VALIDATION_ISSUE_LABELS,
+  type ValidationIssue,
+  type ValidationIssueKind,
+} from "@/lib/validation"
+
+type ValidationPanelProps = {
+  issues: ValidationIssue[]
+}
+
+// 종류별 개수를 보여 줄 때 쓰는 순서. 계산을 막는 문제부터 보여 준다.
+const KIND_ORDER: ValidationIssueKind[] = [
+  "oversell",
+  "missingPrice",
+  "futureDate",
+  "invalidValue",
+  "accountOversell",
+  "duplicate",
+  "priceOutlier",
+  "staleRate",
+]
+
+export function ValidationPanel({ issues }: ValidationPanelProps) {
+  if (issues.length === 0) return null
+
+  const errors = issues.filter((issue) => issue.severity === "error")
+  const counts = KIND_ORDER.map((kind) => ({
+    kind,
+    count: issues.filter((issue) => issue.kind === kind).length,
+  })).filter((item) => item.count > 0)
+
+  return (
+    <details className="group rounded-xl border border-destructive/40 bg-destructive/5 px-4 py-3">
+      <summary className="flex cursor-pointer flex-wrap items-center justify-between gap-2 text-sm font-medium text-foreground">
+        <span>
+          거래 목록 점검: 계산을 막는 문제 {errors.length}건 · 확인 필요{" "}
+          {issues.length - errors.length}건
+        </span>
+        <span className="text-primary">자세히 보기</span>
+      </summary>
+      <div className="mt-3 space-y-2 text-xs">
+        <p className="text-muted-foreground">
+          {counts.map((item) => `${VALIDATION_ISSUE_LABELS[item.kind]} ${item.count}건`).join(" · ")}
+        </p>
+        <ul className="max-h-60 space-y-1 overflow-y-auto">
+          {issues.map((issue, index) => (
+            <li
+              key={`${issue.tradeId}-${issue.kind}-${index}`}
+              className={issue.severity === "error" ? "text-destructive" : "text-muted-foreground"}
+            >
+              {issue.date || "날짜 없음"} · {issue.asset || UNKNOWN_ASSET_LABEL} ·{" "}
+              {VALIDATION_ISSUE_LABELS[issue.kind]}: {issue.message}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </details>
+  )
+}
@@ -0,0 +1,75 @@
+"use client"
+
+import { Check, ChevronDown } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+import type { WorkspaceSummary } from "@/lib/workspace"
+
+type WorkspaceSwitcherProps = {
+  workspaces: WorkspaceSummary[]
+  activeWorkspace: WorkspaceSummary | null
+  onSwitch: (id: string) => void
+  onCreate: (name: string) => void
+  onRename: (name: string) => void
+  onDelete: () => void
+}
+
+export function WorkspaceSwitcher({
+  workspaces,
+  activeWorkspace,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDelete,
+}: WorkspaceSwitcherProps) {
+  const handleCreate = () => {
+    const name = window.prompt("새 작업공간 이름", "")?.trim()
+    if (name) onCreate(name)
+  }
+
+  const handleRename = () => {
+    const name = window.prompt("작업공간 이름", activeWorkspace?.name ?? "")?.trim()
+    if (name) onRename(name)
+  }
+
+  const handleDelete = () => {
+    if (!activeWorkspace) return
+    if (window.confirm(`"${activeWorkspace.name}" 작업공간과 거래를 모두 삭제할까요?`)) onDelete()
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" disabled={!activeWorkspace}>
+          <span className="max-w-[140px] truncate">{activeWorkspace?.name ?? "불러오는 중"}</span>
+          <ChevronDown className="size-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>작업공간</DropdownMenuLabel>
+        {workspaces.map((workspace) => (
+          <DropdownMenuItem key={workspace.id} onClick={() => onSwitch(workspace.id)}>
+            <Check
+              className={workspace.id === activeWorkspace?.id ? "size-4" : "size-4 opacity-0"}
+            />
+            {workspace.name}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onClick={handleCreate}>새 작업공간…</DropdownMenuItem>
+        <DropdownMenuItem onClick={handleRename}>이름 바꾸기…</DropdownMenuItem>
+        <DropdownMenuItem variant="destructive" onClick={handleDelete}>
+          현재 작업공간 삭제
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
@@ -0,0 +1,68 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+
+import { mergePriceSeries, type PriceHistory, type PriceSeries } from "@/lib/price-history"
+import { deletePriceSeries, listPriceSeries, savePriceSeries } from "@/lib/storage"
+
+/** 모든 작업공간이 함께 쓰는 일별 시세를 IndexedDB에서 읽고 저장한다. */
+export function usePriceHistory() {
+  const [priceHistory, setPriceHistory] = useState<PriceHistory>({})
+  const [priceError, setPriceError] = useState<string | null>(null)
+
+  const reportError = useCallback((error: unknown) => {
+    setPriceError(
+      error instanceof Error
+        ? `시세를 저장소에서 읽거나 쓰지 못했습니다: ${error.message}`
+        : "시세를 저장소에서 읽거나 쓰지 못했습니다."
+    )
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+    listPriceSeries()
+      .then((list) => {
+        if (!cancelled) setPriceHistory(Object.fromEntries(list.map((series) => [series.asset, series])))
+      })
+      .catch((error) => {
+        if (!cancelled) reportError(error)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [reportError])
+
+  const addPriceSeries = useCallback(
+    async (incoming: PriceSeries[]) => {
+      const merged = incoming.map((series) => mergePriceSeries(priceHistory[series.asset], series))
+      setPriceHistory((prev) => ({
+        ...prev,
+        ...Object.fromEntries(merged.map((series) => [series.asset, series])),
+      }))
+      try {
+        await Promise.all(merged.map(savePriceSeries))
+      } catch (error) {
+        reportError(error)
+      }
+    },
+    [priceHistory, reportError]
+  )
+
+  const removePriceSeries = useCallback(
+    async (asset: string) => {
+      setPriceHistory((prev) => {
+        const next = { ...prev }
+        delete next[asset]
+        return next
+      })
+      try {
+        await deletePriceSeries(asset)
+      } catch (error) {
+        reportError(error)
+      }
+    },
+    [reportError]
+  )
+
+  return { priceHistory, priceError, addPriceSeries, removePriceSeries }
+}
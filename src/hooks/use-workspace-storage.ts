@@ -0,0 +1,184 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+
+import { readWorkspaceContent } from "@/lib/project-file"
+import {
+  deleteWorkspace,
+  listWorkspaces,
+  loadActiveWorkspaceId,
+  loadWorkspace,
+  saveActiveWorkspaceId,
+  saveWorkspace,
+} from "@/lib/storage"
+import {
+  createWorkspace,
+  createWorkspaceContent,
+  DEFAULT_WORKSPACE_NAME,
+  type WorkspaceContent,
+  type WorkspaceData,
+  type WorkspaceSummary,
+} from "@/lib/workspace"
+
+const AUTOSAVE_DELAY_MS = 400
+
+const toSummary = ({ id, name, updatedAt }: WorkspaceSummary): WorkspaceSummary => ({
+  id,
+  name,
+  updatedAt,
+})
+
+/**
+ * 현재 작업공간 내용을 IndexedDB에 자동 저장하고, 새로고침 시 마지막 작업공간을 복원한다.
+ * 저장소를 쓸 수 없으면 storageError를 채우고 메모리 상태로만 동작한다.
+ */
+export function useWorkspaceStorage(
+  content: WorkspaceContent,
+  onLoad: (content: WorkspaceContent) => void
+) {
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([])
+  const [activeWorkspace, setActiveWorkspace] = useState<WorkspaceSummary | null>(null)
+  const [storageError, setStorageError] = useState<string | null>(null)
+  const onLoadRef = useRef(onLoad)
+  const contentRef = useRef(content)
+  const autosaveRef = useRef<number | null>(null)
+  // 지운 작업공간은 늦게 도착한 자동 저장이 되살리지 않도록 기억해 둔다
+  const removedRef = useRef(new Set<string>())
+
+  useEffect(() => {
+    onLoadRef.current = onLoad
+    contentRef.current = content
+  })
+
+  const reportError = useCallback((error: unknown) => {
+    setStorageError(
+      error instanceof Error
+        ? `브라우저 저장소에 접근하지 못했습니다: ${error.message}`
+        : "브라우저 저장소에 접근하지 못했습니다."
+    )
+  }, [])
+
+  const persist = useCallback(
+    async (workspace: WorkspaceSummary, next: WorkspaceContent) => {
+      if (removedRef.current.has(workspace.id)) return
+      await saveWorkspace({ ...next, ...toSummary(workspace), updatedAt: new Date().toISOString() })
+    },
+    []
+  )
+
+  const open = useCallback(async (workspace: WorkspaceData) => {
+    const restored = readWorkspaceContent(workspace)
+    if (!restored.ok) throw new Error(`"${workspace.name}" 작업공간을 읽지 못했습니다. ${restored.reason}`)
+    await saveActiveWorkspaceId(workspace.id)
+    const list = await listWorkspaces()
+    onLoadRef.current(restored.content)
+    setActiveWorkspace(toSummary(workspace))
+    setWorkspaces(list)
+  }, [])
+
+  useEffect(() => {
+    let cancelled = false
+
+    const restore = async () => {
+      const activeId = await loadActiveWorkspaceId()
+      let workspace = activeId ? await loadWorkspace(activeId) : undefined
+      if (!workspace) {
+        const [first] = await listWorkspaces()
+        workspace = first ? await loadWorkspace(first.id) : undefined
+      }
+      if (!workspace) {
+        workspace = createWorkspace(DEFAULT_WORKSPACE_NAME, contentRef.current)
+        await saveWorkspace(workspace)
+      }
+      if (!cancelled) await open(workspace)
+    }
+
+    restore().catch((error) => {
+      if (!cancelled) reportError(error)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [open, reportError])
+
+  useEffect(() => {
+    if (!activeWorkspace) return
+    const timer = window.setTimeout(() => {
+      autosaveRef.current = null
+      persist(activeWorkspace, content).catch(reportError)
+    }, AUTOSAVE_DELAY_MS)
+    autosaveRef.current = timer
+    return () => window.clearTimeout(timer)
+  }, [activeWorkspace, content, persist, reportError])
+
+  const switchWorkspace = useCallback(
+    async (id: string) => {
+      if (!activeWorkspace || id === activeWorkspace.id) return
+      try {
+        await persist(activeWorkspace, contentRef.current)
+        const workspace = await loadWorkspace(id)
+        if (workspace) await open(workspace)
+      } catch (error) {
+        reportError(error)
+      }
+    },
+    [activeWorkspace, open, persist, reportError]
+  )
+
+  const addWorkspace = useCallback(
+    async (name: string, initial: WorkspaceContent = createWorkspaceContent()) => {
+      try {
+        if (activeWorkspace) await persist(activeWorkspace, contentRef.current)
+        const workspace = createWorkspace(name, initial)
+        await saveWorkspace(workspace)
+        await open(workspace)
+      } catch (error) {
+        reportError(error)
+      }
+    },
+    [activeWorkspace, open, persist, reportError]
+  )
+
+  const renameWorkspace = useCallback(
+    (name: string) => {
+      if (!activeWorkspace) return
+      const renamed = { ...activeWorkspace, name }
+      setActiveWorkspace(renamed)
+      setWorkspaces((prev) =>
+        prev.map((workspace) => (workspace.id === renamed.id ? renamed : workspace))
+      )
+    },
+    [activeWorkspace]
+  )
+
+  const removeWorkspace = useCallback(async () => {
+    if (!activeWorkspace) return
+    if (autosaveRef.current !== null) window.clearTimeout(autosaveRef.current)
+    autosaveRef.current = null
+    removedRef.current.add(activeWorkspace.id)
+    try {
+      await deleteWorkspace(activeWorkspace.id)
+      const [next] = await listWorkspaces()
+      const workspace = next ? await loadWorkspace(next.id) : undefined
+      if (workspace) {
+        await open(workspace)
+      } else {
+        const created = createWorkspace(DEFAULT_WORKSPACE_NAME)
+        await saveWorkspace(created)
+        await open(created)
+      }
+    } catch (error) {
+      reportError(error)
+    }
+  }, [activeWorkspace, open, reportError])
+
+  return {
+    workspaces,
+    activeWorkspace,
+    storageError,
+    switchWorkspace,
+    addWorkspace,
+    renameWorkspace,
+    removeWorkspace,
+  }
+}
@@ -0,0 +1,111 @@
+import { assetActivityForYear, type CostBasisResult } from "@/lib/cost-basis"
+import { isIncome } from "@/lib/income"
+import { normalizeAsset, sortTradesByDate, taxYearOf, type Trade } from "@/lib/trades"
+import { linkedTransferShortfalls, transferFeeLegId } from "@/lib/transfers"
+
+const EPSILON = 1e-9
+
+export const UNASSIGNED_ACCOUNT_LABEL = "계정 미지정"
+
+export const accountLabel = (account: string) => account.trim() || UNASSIGNED_ACCOUNT_LABEL
+
+/** 계정 하나에 남은 자산 수량과, 자산 전체 보유 원가 중 이 계정 몫 */
+export interface AccountHolding {
+  account: string
+  asset: string
+  amount: number
+  holdingCost: number
+}
+
+/** 계정이 가진 수량보다 많이 내보낸 거래 */
+export interface AccountOversell {
+  tradeId: string
+  account: string
+  asset: string
+  shortfall: number
+}
+
+// 거래가 계정의 코인 수량을 얼마나 바꾸는지. 스왑과 이체 수수료는 미리 펼친 거래를 넘긴다.
+const quantityChange = (trade: Trade) => {
+  if (trade.type === "buy" || isIncome(trade.type)) {
+    return trade.feeCurrency === "asset" ? Math.max(0, trade.amount - trade.fee) : trade.amount
+  }
+  if (trade.type === "transferIn") return trade.amount
+  if (trade.type === "sell" && trade.feeCurrency === "asset") return -(trade.amount + trade.fee)
+  return -trade.amount
+}
+
+const balanceKey = (account: string, asset: string) => `${account.trim()}\u0000${asset}`
+
+/**
+ * 계정과 자산별로 거래를 날짜순으로 따라가며 수량을 쌓고, 계정 잔고를 넘어 내보낸 거래를 찾는다.
+ * 손익 엔진과 같은 입력(스왑·이체 수수료를 펼친 거래 목록)을 받는다.
+ */
+export const trackAccountBalances = (trades: Trade[]) => {
+  const balances = new Map<string, { account: string; asset: string; amount: number }>()
+  const oversells = new Map<string, AccountOversell>()
+  // 연결된 이체에서 덜 받은 만큼은 출금 행이 이미 보낸 수량 전체를 뺐으므로 수수료 행에서 다시 빼지 않는다
+  const withdrawn = new Map(
+    [...linkedTransferShortfalls(trades)].map(([id, shortfall]) => [transferFeeLegId(id), shortfall])
+  )
+
+  for (const trade of sortTradesByDate(trades)) {
+    if (trade.amount <= 0) continue
+    const asset = normalizeAsset(trade.asset)
+    const account = trade.account.trim()
+    const key = balanceKey(account, asset)
+    const balance = balances.get(key) ?? { account, asset, amount: 0 }
+    const alreadyWithdrawn = withdrawn.get(trade.id)
+    const change =
+      alreadyWithdrawn === undefined
+        ? quantityChange(trade)
+        : Math.min(0, quantityChange(trade) + alreadyWithdrawn)
+    balance.amount += change
+    balances.set(key, balance)
+
+    if (change < 0 && balance.amount < -EPSILON) {
+      oversells.set(trade.id, {
+        tradeId: trade.id,
+        account,
+        asset,
+        shortfall: Math.min(-balance.amount, -change),
+      })
+    }
+  }
+
+  return { balances: [...balances.values()], oversells }
+}
+
+/**
+ * 연말(year가 null이면 마지막 거래) 기준 계정별 보유 현황.
+ * 취득가액은 계정과 관계없이 사람 단위로 통산하므로, 계정 몫의 원가는 자산 보유 원가를 수량 비율로 나눈 값이다.
+ */
+export const computeAccountHoldings = (
+  trades: Trade[],
+  result: CostBasisResult,
+  year: string | null
+): AccountHolding[] => {
+  const { balances } = trackAccountBalances(
+    year === null ? trades : trades.filter((trade) => taxYearOf(trade.date) <= year)
+  )
+  const assets = new Map(
+    result.assets.map((asset) => [asset.asset, assetActivityForYear(asset, year)])
+  )
+
+  return balances
+    .filter((balance) => Math.abs(balance.amount) > EPSILON)
+    .map((balance) => {
+      const activity = assets.get(balance.asset)
+      const unitCost =
+        activity && activity.holdingAmount > EPSILON
+          ? activity.holdingCost / activity.holdingAmount
+          : 0
+      return {
+        account: balance.account,
+        asset: balance.asset,
+        amount: balance.amount,
+        holdingCost: Math.max(0, balance.amount) * unitCost,
+      }
+    })
+    .sort((a, b) => a.account.localeCompare(b.account) || a.asset.localeCompare(b.asset))
+}
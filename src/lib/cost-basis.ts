@@ -0,0 +1,454 @@
+import { isIncome } from "@/lib/income"
+import { openingBalanceTrades, type OpeningBalance } from "@/lib/opening-balances"
+import type { MarketPriceLookup } from "@/lib/price-history"
+import { expandSwaps } from "@/lib/swaps"
+import { feeInKrw, normalizeAsset, sortTradesByDate, taxYearOf, type Trade } from "@/lib/trades"
+import { expandTransfers, isTransfer } from "@/lib/transfers"
+
+// 부동소수점 잔량으로 빈 로트가 남지 않도록 하는 허용 오차
+const EPSILON = 1e-9
+
+export type CostBasisMethod = "movingAverage" | "totalAverage" | "fifo" | "lifo" | "specificLot"
+
+export const COST_BASIS_METHODS: { value: CostBasisMethod; label: string }[] = [
+  { value: "movingAverage", label: "이동평균법" },
+  { value: "totalAverage", label: "총평균법" },
+  { value: "fifo", label: "선입선출 (FIFO)" },
+  { value: "lifo", label: "후입선출 (LIFO)" },
+  { value: "specificLot", label: "개별 로트 지정" },
+]
+
+export const DEFAULT_COST_BASIS_METHOD: CostBasisMethod = "movingAverage"
+
+export interface LotSelection {
+  lotId: string
+  amount: number
+}
+
+/** 매도 거래 id별로 소진할 매수 로트와 수량. 지정되지 않은 수량은 선입선출로 채운다. */
+export type LotSelections = Record<string, LotSelection[]>
+
+export interface CostBasisOptions {
+  method?: CostBasisMethod
+  lotSelections?: LotSelections
+  openingBalances?: OpeningBalance[]
+  /** 단가 없이 입력한 스왑을 시세로 평가할 때 쓴다. */
+  marketPrice?: MarketPriceLookup
+}
+
+export interface Lot {
+  id: string
+  date: string
+  amount: number
+  unitCost: number
+  /** 기초 보유분(의제취득가액)에서 온 로트 */
+  deemed: boolean
+}
+
+export interface LotMatch {
+  lotId: string
+  amount: number
+  unitCost: number
+}
+
+export interface RealizedSale {
+  tradeId: string
+  asset: string
+  date: string
+  amount: number
+  /** 매도 수수료를 뺀 순매도 금액. 출금 수수료는 0이다. */
+  proceeds: number
+  costBasis: number
+  fee: number
+  gain: number
+  matches: LotMatch[]
+  /** 보유 수량을 넘어 매도한 수량. 취득가액 0으로 계산된다. */
+  unmatchedAmount: number
+}
+
+/** 과세연도(달력 연도) 단위 집계. holdingCost는 연말 기준 보유 원가다. */
+export interface YearActivity {
+  year: string
+  totalBuy: number
+  totalSell: number
+  totalFee: number
+  realizedGain: number
+  holdingAmount: number
+  holdingCost: number
+}
+
+/** 거래 직후의 보유 수량과 보유 원가 */
+export interface TradeBalance {
+  tradeId: string
+  holdingAmount: number
+  holdingCost: number
+}
+
+export interface AssetResult {
+  asset: string
+  totalBuy: number
+  totalSell: number
+  totalFee: number
+  realizedGain: number
+  sales: RealizedSale[]
+  lots: Lot[]
+  /** 거래 순서대로 쌓인 보유 잔고 */
+  balances: TradeBalance[]
+  holdingAmount: number
+  holdingCost: number
+  years: YearActivity[]
+}
+
+export interface CostBasisResult {
+  method: CostBasisMethod
+  totalBuy: number
+  totalSell: number
+  totalFee: number
+  realizedGain: number
+  sales: RealizedSale[]
+  holdingCost: number
+  assets: AssetResult[]
+  years: YearActivity[]
+}
+
+const takeFromLot = (lots: Lot[], index: number, amount: number, matches: LotMatch[]) => {
+  const lot = lots[index]
+  const used = Math.min(lot.amount, amount)
+  if (used <= 0) return 0
+  matches.push({ lotId: lot.id, amount: used, unitCost: lot.unitCost })
+  lot.amount -= used
+  return used
+}
+
+const matchSale = (
+  lots: Lot[],
+  amount: number,
+  method: CostBasisMethod,
+  selections: LotSelection[] = []
+) => {
+  const matches: LotMatch[] = []
+  let remaining = amount
+
+  if (method === "specificLot") {
+    for (const selection of selections) {
+      if (remaining <= EPSILON) break
+      const index = lots.findIndex((lot) => lot.id === selection.lotId)
+      if (index < 0) continue
+      remaining -= takeFromLot(lots, index, Math.min(selection.amount, remaining), matches)
+    }
+  }
+
+  while (remaining > EPSILON && lots.length > 0) {
+    const index = method === "lifo" ? lots.length - 1 : 0
+    remaining -= takeFromLot(lots, index, remaining, matches)
+    if (lots[index].amount <= EPSILON) lots.splice(index, 1)
+  }
+
+  for (let i = lots.length - 1; i >= 0; i--) {
+    if (lots[i].amount <= EPSILON) lots.splice(i, 1)
+  }
+
+  const costBasis = matches.reduce((acc, match) => acc + match.amount * match.unitCost, 0)
+  return { matches, costBasis, unmatchedAmount: remaining > EPSILON ? remaining : 0 }
+}
+
+// 평균법은 로트의 수량 순서는 유지하되 모든 로트의 단가를 평균 단가로 맞춘다
+const averageUnitCost = (lots: Lot[]) => {
+  const amount = lots.reduce((acc, lot) => acc + lot.amount, 0)
+  const cost = lots.reduce((acc, lot) => acc + lot.amount * lot.unitCost, 0)
+  return amount > EPSILON ? cost / amount : 0
+}
+
+// 코인으로 낸 매수 수수료는 받은 수량을 줄이고, 원화 수수료는 취득가액에 더한다
+const acquisition = (trade: Trade) => {
+  const gross = trade.amount * trade.price
+  return trade.feeCurrency === "asset"
+    ? { amount: Math.max(0, trade.amount - trade.fee), cost: gross }
+    : { amount: trade.amount, cost: gross + trade.fee }
+}
+
+// 매수와 수령 소득(에어드롭·스테이킹 등)은 모두 새 로트를 만든다
+const isAcquisition = (trade: Trade) => trade.type === "buy" || isIncome(trade.type)
+
+// 총평균법은 연초 이월 보유분과 그해 취득분 전체의 평균 단가를 한 해 동안 쓴다
+const totalAverageUnitCost = (lots: Lot[], yearTrades: Trade[]) => {
+  let amount = lots.reduce((acc, lot) => acc + lot.amount, 0)
+  let cost = lots.reduce((acc, lot) => acc + lot.amount * lot.unitCost, 0)
+  for (const trade of yearTrades) {
+    if (!isAcquisition(trade) || trade.amount <= 0) continue
+    const acquired = acquisition(trade)
+    amount += acquired.amount
+    cost += acquired.cost
+  }
+  return amount > EPSILON ? cost / amount : 0
+}
+
+const computeAsset = (
+  asset: string,
+  trades: Trade[],
+  method: CostBasisMethod,
+  lotSelections: LotSelections = {},
+  openingIds: Set<string> = new Set(),
+  onSale?: (tradeId: string, lots: Lot[]) => void
+): AssetResult => {
+  const lots: Lot[] = []
+  const sales: RealizedSale[] = []
+  const years: YearActivity[] = []
+  const balances: TradeBalance[] = []
+  let fixedUnitCost: number | null = null
+
+  const sumHoldingCost = () => lots.reduce((acc, lot) => acc + lot.amount * lot.unitCost, 0)
+  const sumHoldingAmount = () => lots.reduce((acc, lot) => acc + lot.amount, 0)
+  const recordBalance = (tradeId: string) => {
+    balances.push({ tradeId, holdingAmount: sumHoldingAmount(), holdingCost: sumHoldingCost() })
+  }
+  const closeYear = (activity: YearActivity) => {
+    activity.holdingAmount = sumHoldingAmount()
+    activity.holdingCost = sumHoldingCost()
+  }
+
+  const openYear = (year: string) => {
+    const previous = years.at(-1)
+    if (previous) closeYear(previous)
+    const activity: YearActivity = {
+      year,
+      totalBuy: 0,
+      totalSell: 0,
+      totalFee: 0,
+      realizedGain: 0,
+      holdingAmount: 0,
+      holdingCost: 0,
+    }
+    years.push(activity)
+
+    if (method === "totalAverage") {
+      const unitCost = totalAverageUnitCost(
+        lots,
+        trades.filter((trade) => taxYearOf(trade.date) === year)
+      )
+      lots.forEach((lot) => (lot.unitCost = unitCost))
+      fixedUnitCost = unitCost
+    }
+    return activity
+  }
+
+  for (const trade of trades) {
+    if (trade.amount <= 0) continue
+    const gross = trade.amount * trade.price
+    const year = taxYearOf(trade.date)
+    const latest = years.at(-1)
+    const activity = latest?.year === year ? latest : openYear(year)
+
+    // 이체는 보유 로트를 그대로 두고 잔고만 남긴다
+    if (isTransfer(trade.type)) {
+      recordBalance(trade.id)
+      continue
+    }
+
+    if (isAcquisition(trade)) {
+      const acquired = acquisition(trade)
+      const deemed = openingIds.has(trade.id)
+      // 수령 소득의 시가는 매수 금액이 아니라 소득으로 따로 집계한다
+      if (!deemed && trade.type === "buy") activity.totalBuy += gross
+      if (!deemed) activity.totalFee += feeInKrw(trade)
+      if (acquired.amount <= EPSILON) {
+        recordBalance(trade.id)
+        continue
+      }
+      lots.push({
+        id: trade.id,
+        date: trade.date,
+        amount: acquired.amount,
+        unitCost: fixedUnitCost ?? acquired.cost / acquired.amount,
+        deemed,
+      })
+      if (method === "movingAverage") {
+        const unitCost = averageUnitCost(lots)
+        lots.forEach((lot) => (lot.unitCost = unitCost))
+      }
+      recordBalance(trade.id)
+      continue
+    }
+
+    onSale?.(trade.id, lots)
+    const { matches, costBasis, unmatchedAmount } = matchSale(
+      lots,
+      trade.amount,
+      method,
+      lotSelections[trade.id]
+    )
+
+    // 코인으로 낸 매도 수수료는 매도 수량과 따로 로트에서 빠지고, 그 취득가액이 필요경비가 된다
+    const feeCoins =
+      trade.type === "sell" && trade.feeCurrency === "asset" && trade.fee > 0
+        ? matchSale(lots, trade.fee, method)
+        : null
+
+    // 출금 수수료로 나간 코인은 매도 대가 없이 취득가액만큼 필요경비가 된다
+    const isWithdrawalFee = trade.type === "withdrawalFee"
+    const fee = isWithdrawalFee ? costBasis : (feeCoins?.costBasis ?? feeInKrw(trade))
+    const proceeds = isWithdrawalFee ? 0 : gross - fee
+    if (!isWithdrawalFee) activity.totalSell += gross
+    activity.totalFee += fee
+    activity.realizedGain += proceeds - costBasis
+
+    sales.push({
+      tradeId: trade.id,
+      asset,
+      date: trade.date,
+      amount: trade.amount,
+      proceeds,
+      costBasis,
+      fee,
+      gain: proceeds - costBasis,
+      matches,
+      unmatchedAmount: unmatchedAmount + (feeCoins?.unmatchedAmount ?? 0),
+    })
+    recordBalance(trade.id)
+  }
+
+  const lastYear = years.at(-1)
+  if (lastYear) closeYear(lastYear)
+
+  const sum = (pick: (activity: YearActivity) => number) =>
+    years.reduce((acc, activity) => acc + pick(activity), 0)
+
+  return {
+    asset,
+    totalBuy: sum((activity) => activity.totalBuy),
+    totalSell: sum((activity) => activity.totalSell),
+    totalFee: sum((activity) => activity.totalFee),
+    realizedGain: sum((activity) => activity.realizedGain),
+    sales,
+    lots,
+    balances,
+    holdingAmount: sumHoldingAmount(),
+    holdingCost: sumHoldingCost(),
+    years,
+  }
+}
+
+export const groupTradesByAsset = (trades: Trade[]) => {
+  const groups = new Map<string, Trade[]>()
+  for (const trade of sortTradesByDate(trades)) {
+    const asset = normalizeAsset(trade.asset)
+    const group = groups.get(asset)
+    if (group) group.push(trade)
+    else groups.set(asset, [trade])
+  }
+  return groups
+}
+
+// 거래가 없는 해에도 자산의 보유 원가는 직전 연말 값으로 이월된다
+const combineYears = (assets: AssetResult[]): YearActivity[] => {
+  const yearSet = new Set(assets.flatMap((result) => result.years.map((activity) => activity.year)))
+
+  return [...yearSet].sort().map((year) => {
+    const combined: YearActivity = {
+      year,
+      totalBuy: 0,
+      totalSell: 0,
+      totalFee: 0,
+      realizedGain: 0,
+      holdingAmount: 0,
+      holdingCost: 0,
+    }
+
+    for (const result of assets) {
+      const activity = result.years.find((item) => item.year === year)
+      if (activity) {
+        combined.totalBuy += activity.totalBuy
+        combined.totalSell += activity.totalSell
+        combined.totalFee += activity.totalFee
+        combined.realizedGain += activity.realizedGain
+      }
+      const carried = result.years.filter((item) => item.year <= year).at(-1)
+      combined.holdingAmount += carried?.holdingAmount ?? 0
+      combined.holdingCost += carried?.holdingCost ?? 0
+    }
+
+    return combined
+  })
+}
+
+/** 자산의 특정 과세연도 집계. year가 null이면 전체 기간을 돌려준다. */
+export const assetActivityForYear = (result: AssetResult, year: string | null) => {
+  if (year === null) return { ...result, year: null }
+  const activity = result.years.find((item) => item.year === year)
+  const carried = result.years.filter((item) => item.year <= year).at(-1)
+  return {
+    asset: result.asset,
+    year,
+    totalBuy: activity?.totalBuy ?? 0,
+    totalSell: activity?.totalSell ?? 0,
+    totalFee: activity?.totalFee ?? 0,
+    realizedGain: activity?.realizedGain ?? 0,
+    holdingAmount: carried?.holdingAmount ?? 0,
+    holdingCost: carried?.holdingCost ?? 0,
+  }
+}
+
+// 기초 보유분, 이체 수수료, 스왑을 엔진이 계산할 매수·매도 거래로 펼친다
+const expandForEngine = (trades: Trade[], options: CostBasisOptions) => {
+  const openingTrades = openingBalanceTrades(options.openingBalances ?? [])
+  const { trades: expanded } = expandSwaps(
+    expandTransfers([...openingTrades, ...trades]),
+    options.marketPrice
+  )
+  return { expanded, openingIds: new Set(openingTrades.map((trade) => trade.id)) }
+}
+
+/**
+ * 개별 지정법으로 계산할 때 매도(스왑 처분과 출금 수수료 포함) 직전에 남아 있던 로트를 매도 id별로 돌려준다.
+ * 매수뿐 아니라 수령 소득과 기초 보유분 로트도 들어 있고, 수량은 앞선 매도가 쓰고 남은 양이다.
+ */
+export const lotsBeforeSales = (
+  trades: Trade[],
+  options: Omit<CostBasisOptions, "method"> = {}
+) => {
+  const { expanded, openingIds } = expandForEngine(trades, options)
+  const available = new Map<string, Lot[]>()
+  for (const [asset, group] of groupTradesByAsset(expanded)) {
+    computeAsset(asset, group, "specificLot", options.lotSelections, openingIds, (tradeId, lots) =>
+      available.set(tradeId, lots.map((lot) => ({ ...lot })))
+    )
+  }
+  return available
+}
+
+/**
+ * 자산별로 매도 거래를 이전 매수 로트에 대응시켜 매도별 실현 손익과 잔여 보유 원가를 계산한다.
+ */
+export function computeRealizedGains(
+  trades: Trade[],
+  options: CostBasisOptions = {}
+): CostBasisResult {
+  const method = options.method ?? DEFAULT_COST_BASIS_METHOD
+  const { expanded, openingIds } = expandForEngine(trades, options)
+  const assets = [...groupTradesByAsset(expanded)]
+    .map(([asset, group]) =>
+      computeAsset(asset, group, method, options.lotSelections, openingIds)
+    )
+    .sort((a, b) => a.asset.localeCompare(b.asset))
+
+  const sum = (pick: (result: AssetResult) => number) =>
+    assets.reduce((acc, result) => acc + pick(result), 0)
+
+  return {
+    method,
+    totalBuy: sum((result) => result.totalBuy),
+    totalSell: sum((result) => result.totalSell),
+    totalFee: sum((result) => result.totalFee),
+    realizedGain: sum((result) => result.realizedGain),
+    holdingCost: sum((result) => result.holdingCost),
+    sales: sortTradesByDate(assets.flatMap((result) => result.sales)),
+    assets,
+    years: combineYears(assets),
+  }
+}
+
+/** 같은 거래 목록을 모든 취득가액 산정 방법으로 계산해 나란히 비교한다. */
+export const compareCostBasisMethods = (
+  trades: Trade[],
+  options: Omit<CostBasisOptions, "method"> = {}
+) => COST_BASIS_METHODS.map(({ value }) => computeRealizedGains(trades, { ...options, method: value }))
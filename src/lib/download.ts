@@ -0,0 +1,14 @@
+/** 브라우저에서 문자열이나 Blob을 파일로 내려받는다. */
+export const downloadFile = (fileName: string, contents: BlobPart, type: string) => {
+  const blob = new Blob([contents], { type })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement("a")
+  a.href = url
+  a.download = fileName
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
+/** 파일 이름에 쓸 수 없는 문자를 밑줄로 바꾼다. */
+export const safeFileName = (value: string) =>
+  value.trim().replace(/[\\/:*?"<>|\s]+/g, "_") || "cointax"
@@ -0,0 +1,174 @@
+import { findColumn, getCell, normalizeDate, normalizeNumber, readCsv } from "@/lib/importers/csv"
+import type { Trade } from "@/lib/trades"
+
+/** date부터 적용되는 원화 환율. 1 currency = rate 원 */
+export interface ExchangeRate {
+  currency: string
+  date: string
+  rate: number
+}
+
+export type ExchangeRateSource = "krw" | "user" | "bundled" | "missing"
+
+export interface RateLookup {
+  rate: number
+  /** 적용한 환율의 기준일. 원화 거래와 환율이 없는 경우 null */
+  date: string | null
+  source: ExchangeRateSource
+}
+
+// 한국은행 연평균 원/달러 매매기준율을 반올림한 참고값. 정확한 환산은 일별 환율표를 올려 쓴다.
+// 연평균이라 그해 거래에만 쓰고, 표에 없는 해(2025년 이후)는 환율 없음으로 남긴다.
+export const BUNDLED_EXCHANGE_RATES: ExchangeRate[] = [
+  { currency: "USD", date: "2017-01-01", rate: 1131 },
+  { currency: "USD", date: "2018-01-01", rate: 1100 },
+  { currency: "USD", date: "2019-01-01", rate: 1166 },
+  { currency: "USD", date: "2020-01-01", rate: 1180 },
+  { currency: "USD", date: "2021-01-01", rate: 1144 },
+  { currency: "USD", date: "2022-01-01", rate: 1292 },
+  { currency: "USD", date: "2023-01-01", rate: 1306 },
+  { currency: "USD", date: "2024-01-01", rate: 1364 },
+]
+
+// 달러 스테이블코인은 전용 환율이 없으면 달러 환율을 쓴다
+const CURRENCY_PEGS: Record<string, string> = {
+  USDT: "USD",
+  USDC: "USD",
+  BUSD: "USD",
+  FDUSD: "USD",
+  TUSD: "USD",
+}
+
+export const EXCHANGE_RATE_SOURCE_LABELS: Record<ExchangeRateSource, string> = {
+  krw: "원화",
+  user: "업로드한 환율표",
+  bundled: "내장 연평균 환율",
+  missing: "환율 없음",
+}
+
+type RateIndex = Map<string, ExchangeRate[]>
+
+export interface ExchangeRateTable {
+  user: RateIndex
+  bundled: RateIndex
+}
+
+const indexRates = (rates: ExchangeRate[]): RateIndex => {
+  const index: RateIndex = new Map()
+  for (const rate of rates) {
+    const list = index.get(rate.currency)
+    if (list) list.push(rate)
+    else index.set(rate.currency, [rate])
+  }
+  for (const list of index.values()) list.sort((a, b) => a.date.localeCompare(b.date))
+  return index
+}
+
+export const createExchangeRateTable = (userRates: ExchangeRate[]): ExchangeRateTable => ({
+  user: indexRates(userRates),
+  bundled: indexRates(BUNDLED_EXCHANGE_RATES),
+})
+
+// 업로드한 환율은 거래일에서 이 기간 안의 값만 쓰고, 더 오래되면 환율 없음으로 본다.
+// 월별 환율표도 쓸 수 있도록 한 달로 잡는다.
+const MAX_USER_RATE_AGE_DAYS = 31
+// 이보다 오래된 업로드 환율로 환산한 거래는 점검에서 경고한다
+const STALE_USER_RATE_DAYS = 7
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const ageInDays = (rateDate: string, date: string) =>
+  Math.round((Date.parse(date) - Date.parse(rateDate)) / DAY_MS)
+
+// 거래일 당일이나 그 이전의 가장 가까운 환율
+const rateOnOrBefore = (index: RateIndex, currency: string, date: string) =>
+  index.get(currency)?.findLast((rate) => rate.date <= date)
+
+/**
+ * 거래일 기준 원화 환율을 찾는다. 업로드한 환율표에서 31일 안의 값을 먼저 보고, 없으면 같은 해의 내장 연평균 환율을 쓴다.
+ * 스테이블코인은 자체 환율이 없을 때 페깅된 통화의 환율로 대신한다.
+ */
+export const findKrwRate = (
+  table: ExchangeRateTable,
+  currency: string,
+  date: string
+): RateLookup => {
+  const code = currency.trim().toUpperCase() || "KRW"
+  if (code === "KRW") return { rate: 1, date: null, source: "krw" }
+
+  const candidates = [code, CURRENCY_PEGS[code]].filter(Boolean)
+  for (const [source, index] of [
+    ["user", table.user],
+    ["bundled", table.bundled],
+  ] as const) {
+    for (const candidate of candidates) {
+      const found = rateOnOrBefore(index, candidate, date)
+      if (!found) continue
+      if (source === "bundled" && found.date.slice(0, 4) !== date.slice(0, 4)) continue
+      if (source === "user" && ageInDays(found.date, date) > MAX_USER_RATE_AGE_DAYS) continue
+      return { rate: found.rate, date: found.date, source }
+    }
+  }
+  return { rate: 0, date: null, source: "missing" }
+}
+
+/** 업로드한 환율표에서 거래일보다 일주일 넘게 지난 환율을 썼으면 그 일수를, 아니면 null을 돌려준다. */
+export const staleRateAge = (lookup: RateLookup, date: string) => {
+  if (lookup.source !== "user" || !lookup.date) return null
+  const age = ageInDays(lookup.date, date)
+  return age > STALE_USER_RATE_DAYS ? age : null
+}
+
+/**
+ * 단가와 결제 통화 수수료를 거래일 환율로 원화 환산한다.
+ * 환율을 찾지 못한 거래는 단가 0으로 계산되므로 conversions로 따로 표시해야 한다.
+ */
+export const convertTradesToKrw = (trades: Trade[], table: ExchangeRateTable) => {
+  const conversions = new Map<string, RateLookup>()
+  const converted = trades.map((trade) => {
+    const lookup = findKrwRate(table, trade.quoteCurrency, trade.date)
+    conversions.set(trade.id, lookup)
+    if (lookup.source === "krw") return trade
+    return {
+      ...trade,
+      price: trade.price * lookup.rate,
+      fee: trade.feeCurrency === "asset" ? trade.fee : trade.fee * lookup.rate,
+    }
+  })
+  return { trades: converted, conversions }
+}
+
+/** date, currency, rate 열이 있는 환율 CSV를 읽는다. 읽을 수 없는 행은 건너뛰고 개수만 센다. */
+export const parseExchangeRateCsv = (text: string) => {
+  const { header, rows } = readCsv(text)
+  const columns = {
+    date: findColumn(header, ["date", "날짜", "일자"]),
+    currency: findColumn(header, ["currency", "통화", "code"]),
+    rate: findColumn(header, ["rate", "krw", "환율", "매매기준율"]),
+  }
+  if (columns.date < 0 || columns.currency < 0 || columns.rate < 0) {
+    return { rates: [], skipped: rows.length, missingColumns: true }
+  }
+
+  const rates: ExchangeRate[] = []
+  let skipped = 0
+  for (const cells of rows) {
+    const rawDate = getCell(cells, columns.date)
+    const currency = (getCell(cells, columns.currency) ?? "").trim().toUpperCase()
+    const rate = normalizeNumber(getCell(cells, columns.rate))
+    if (!rawDate?.trim() || !currency || !Number.isFinite(rate) || rate <= 0) {
+      skipped++
+      continue
+    }
+    rates.push({ currency, date: normalizeDate(rawDate), rate })
+  }
+  return { rates, skipped, missingColumns: false }
+}
+
+/** 같은 통화·날짜의 환율은 새로 올린 값으로 바꾼다. */
+export const mergeExchangeRates = (current: ExchangeRate[], incoming: ExchangeRate[]) => {
+  const merged = new Map(current.map((rate) => [`${rate.currency}|${rate.date}`, rate]))
+  for (const rate of incoming) merged.set(`${rate.currency}|${rate.date}`, rate)
+  return [...merged.values()].sort(
+    (a, b) => a.currency.localeCompare(b.currency) || a.date.localeCompare(b.date)
+  )
+}
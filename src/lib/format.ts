@@ -0,0 +1,3 @@
+const numberFormatter = new Intl.NumberFormat("ko-KR")
+
+export const formatCurrency = (value: number) => numberFormatter.format(Math.round(value))
@@ -0,0 +1,146 @@
+import type { CostBasisResult, Lot } from "@/lib/cost-basis"
+import {
+  lotsInSaleOrder,
+  simulateSales,
+  type SaleScenario,
+  type SaleSimulation,
+  type SimulationInput,
+} from "@/lib/simulation"
+import { availableCarriedLoss } from "@/lib/tax"
+import { taxYearOf } from "@/lib/trades"
+
+const EPSILON = 1e-9
+
+/** 제안한 매도 중 로트 하나에서 꺼내는 몫 */
+export interface PlannedLotSale {
+  lotId: string
+  date: string
+  amount: number
+  unitCost: number
+  gain: number
+}
+
+/** 자산 하나에 대해 제안하는 매도 */
+export interface PlannedSale {
+  asset: string
+  price: number
+  amount: number
+  gain: number
+  lots: PlannedLotSale[]
+}
+
+export interface HarvestPlan {
+  year: string
+  target: number
+  /** 실제 거래만 반영한 그해 과세 대상 소득과 세액 */
+  before: { taxableGain: number; tax: number }
+  sales: PlannedSale[]
+  /** 제안한 매도를 모두 반영한 결과 */
+  after: SaleSimulation
+  /** 보유 로트만으로 목표에 닿지 못하면 false */
+  reached: boolean
+}
+
+// 자산 하나의 실현 손익이 gain만큼 바뀔 때 과세 대상 소득이 얼마나 바뀌는지.
+// 자산 간 통산을 하지 않으면 자산별 손실은 그 자산의 이익까지만 상쇄한다.
+const taxableChange = (netAcrossAssets: boolean, assetGain: number, gain: number) =>
+  netAcrossAssets ? gain : Math.max(0, assetGain + gain) - Math.max(0, assetGain)
+
+const toPlannedLot = (lot: Lot, amount: number, price: number): PlannedLotSale => ({
+  lotId: lot.id,
+  date: lot.date,
+  amount,
+  unitCost: lot.unitCost,
+  gain: (price - lot.unitCost) * amount,
+})
+
+// 매도 순서대로 로트를 꺼내며 실현 손익을 budget까지 채운다. budget이 음수면 손실을 채운다.
+// 개별 지정법은 원하는 방향의 로트만 고르고, 나머지 방법은 엔진이 소진하는 순서를 따른다.
+const pickLots = (lots: Lot[], price: number, budget: number, specificLot: boolean) => {
+  const wanted = (gain: number) => (budget > 0 ? gain > 0 : gain < 0)
+  const ordered = specificLot ? lots.filter((lot) => wanted(price - lot.unitCost)) : lots
+  const picked: PlannedLotSale[] = []
+  let remaining = Math.abs(budget)
+
+  for (const [index, lot] of ordered.entries()) {
+    if (remaining <= EPSILON) break
+    const gainPerUnit = price - lot.unitCost
+    if (!wanted(gainPerUnit)) {
+      // 순서상 먼저 팔리는 반대 방향 로트는 뒤에 원하는 로트가 있을 때만 거쳐 간다
+      if (budget < 0 || !ordered.slice(index + 1).some((next) => price - next.unitCost > 0)) break
+      picked.push(toPlannedLot(lot, lot.amount, price))
+      remaining += Math.abs(gainPerUnit) * lot.amount
+      continue
+    }
+    const amount = Math.min(lot.amount, remaining / Math.abs(gainPerUnit))
+    picked.push(toPlannedLot(lot, amount, price))
+    remaining -= Math.abs(gainPerUnit) * amount
+  }
+
+  return picked
+}
+
+/**
+ * 입력한 현재가로 자산·로트별 매도 수량을 골라 그해 과세 대상 소득(기본공제 전)을 목표에 맞춘다.
+ * 목표보다 이익이 적으면 이익 로트를, 많으면 손실 로트를 판다. 수수료는 고려하지 않는다.
+ */
+export const planHarvest = (
+  input: SimulationInput,
+  result: CostBasisResult,
+  prices: Map<string, number>,
+  target: number
+): HarvestPlan => {
+  const year = taxYearOf(input.date)
+  const baseline = input.baselineReports.find((report) => report.year === year)
+  const before = { taxableGain: baseline?.taxableGain ?? 0, tax: baseline?.tax ?? 0 }
+  const { netAcrossAssets } = input.profile.lossNetting
+  const specificLot = result.method === "specificLot"
+  // 목표가 0 이상이면 남은 이월결손금이 먼저 이익을 흡수하므로 그만큼 더 실현해야 한다
+  let gap =
+    target -
+    before.taxableGain +
+    (target >= 0 ? availableCarriedLoss(input.carryForwards, year) : 0)
+  const sales: PlannedSale[] = []
+
+  for (const asset of result.assets) {
+    if (Math.abs(gap) <= EPSILON) break
+    const price = prices.get(asset.asset) ?? 0
+    if (price <= 0 || asset.holdingAmount <= EPSILON) continue
+
+    const assetGain = asset.years.find((activity) => activity.year === year)?.realizedGain ?? 0
+    // 통산하지 않으면 이 자산의 기존 손실만큼 이익을 더 낼 수 있고, 기존 이익만큼만 손실로 줄일 수 있다
+    const budget = netAcrossAssets
+      ? gap
+      : gap > 0
+        ? gap + Math.max(0, -assetGain)
+        : -Math.min(-gap, Math.max(0, assetGain))
+    if (Math.abs(budget) <= EPSILON) continue
+
+    const lots = pickLots(lotsInSaleOrder(asset.lots, result.method), price, budget, specificLot)
+    const amount = lots.reduce((acc, lot) => acc + lot.amount, 0)
+    if (amount <= EPSILON) continue
+    const gain = lots.reduce((acc, lot) => acc + lot.gain, 0)
+
+    sales.push({ asset: asset.asset, price, amount, gain, lots })
+    gap -= taxableChange(netAcrossAssets, assetGain, gain)
+  }
+
+  const scenarios: SaleScenario[] = sales.map((sale) => ({
+    asset: sale.asset,
+    amount: sale.amount,
+    price: sale.price,
+    lots: specificLot
+      ? sale.lots.map((lot) => ({ lotId: lot.lotId, amount: lot.amount }))
+      : undefined,
+  }))
+  const after = simulateSales(input, scenarios)
+
+  return {
+    year,
+    target,
+    before,
+    sales,
+    after,
+    reached: Math.abs(target - (after.report?.taxableGain ?? 0)) < 1,
+  }
+}
@@ -0,0 +1,77 @@
+import {
+  acceptRow,
+  getCell,
+  hasColumns,
+  mapColumnsByName,
+  parseNumberWithUnit,
+  readDate,
+  readFeeCurrency,
+  rejectFeeCurrency,
+  rejectRow,
+  splitPair,
+} from "@/lib/importers/csv"
+import type { ImportFormat } from "@/lib/importers/types"
+
+// 바이낸스 현물 거래내역 내보내기. 두 가지 형식을 모두 받는다.
+// 현재: Date(UTC),Pair,Side,Price,Executed,Amount,Fee   (Executed/Amount/Fee에 단위가 붙는다)
+// 이전: Date(UTC),Market,Type,Price,Amount,Total,Fee,Fee Coin
+const isCurrentLayout = (header: string[]) => hasColumns(header, ["date(utc)", "pair", "executed"])
+const isLegacyLayout = (header: string[]) => hasColumns(header, ["date(utc)", "market", "fee coin"])
+
+export const binanceFormat: ImportFormat = {
+  id: "binance",
+  label: "바이낸스",
+  detect: (header) => isCurrentLayout(header) || isLegacyLayout(header),
+  mapColumns: (header) =>
+    isCurrentLayout(header)
+      ? mapColumnsByName(header, {
+          date: ["date(utc)"],
+          asset: ["pair"],
+          type: ["side"],
+          price: ["price"],
+          amount: ["executed"],
+          total: ["amount"],
+          fee: ["fee"],
+        })
+      : mapColumnsByName(header, {
+          date: ["date(utc)"],
+          asset: ["market"],
+          type: ["type"],
+          price: ["price"],
+          amount: ["amount"],
+          total: ["total"],
+          fee: ["fee"],
+          feeCurrency: ["fee coin"],
+        }),
+  createRowParser: (mapping) => (cells) => {
+    const side = getCell(cells, mapping.type)?.trim().toUpperCase() ?? ""
+    if (side !== "BUY" && side !== "SELL") {
+      return rejectRow(`알 수 없는 매매 구분입니다: ${side || "(빈 값)"}`)
+    }
+
+    const warnings: string[] = []
+    const { base, quote } = splitPair(getCell(cells, mapping.asset))
+    if (!quote) warnings.push("페어에서 호가 통화를 찾지 못했습니다.")
+    const fee = parseNumberWithUnit(getCell(cells, mapping.fee))
+    const feeUnit = fee.unit || (getCell(cells, mapping.feeCurrency)?.trim().toUpperCase() ?? "")
+
+    const feeCurrency = readFeeCurrency(feeUnit, fee.value, base, quote)
+    if (!feeCurrency) return rejectFeeCurrency(feeUnit, base, quote)
+
+    return acceptRow(
+      {
+        externalId: null,
+        account: binanceFormat.label,
+        date: readDate(getCell(cells, mapping.date), warnings, { utc: true }),
+        asset: base,
+        type: side === "BUY" ? "buy" : "sell",
+        amount: parseNumberWithUnit(getCell(cells, mapping.amount)).value,
+        price: parseNumberWithUnit(getCell(cells, mapping.price)).value,
+        fee: Math.abs(fee.value),
+        feeCurrency,
+        quoteCurrency: quote,
+      },
+      warnings
+    )
+  },
+}
@@ -0,0 +1,68 @@
+import {
+  acceptRow,
+  getCell,
+  hasColumns,
+  mapColumnsByName,
+  parseNumberWithUnit,
+  readDate,
+  readFeeCurrency,
+  rejectFeeCurrency,
+  rejectRow,
+} from "@/lib/importers/csv"
+import type { ImportFormat } from "@/lib/importers/types"
+import { normalizeAsset, type TradeType } from "@/lib/trades"
+
+// 빗썸 거래내역 내보내기:
+// 거래일시,자산,거래구분,거래수량,체결가격,거래금액,수수료,정산금액
+// 입출금도 같은 파일에 섞여 나오므로 이체로 읽는다
+const SIDES: Record<string, TradeType> = {
+  매수: "buy",
+  매도: "sell",
+  입금: "transferIn",
+  출금: "transferOut",
+}
+
+export const bithumbFormat: ImportFormat = {
+  id: "bithumb",
+  label: "빗썸",
+  detect: (header) => hasColumns(header, ["거래일시", "거래구분", "거래수량", "체결가격"]),
+  mapColumns: (header) =>
+    mapColumnsByName(header, {
+      date: ["거래일시"],
+      asset: ["자산", "코인"],
+      type: ["거래구분"],
+      amount: ["거래수량"],
+      price: ["체결가격"],
+      total: ["거래금액"],
+      fee: ["수수료"],
+    }),
+  createRowParser: (mapping) => (cells) => {
+    // "매수(원화)"처럼 괄호 설명이 붙는 경우가 있다
+    const side = (getCell(cells, mapping.type) ?? "").replace(/\(.*\)/, "").trim()
+    const type = SIDES[side]
+    if (!type) return rejectRow(`거래가 아닌 구분입니다: ${side || "(빈 값)"}`)
+
+    const warnings: string[] = []
+    const asset = normalizeAsset(getCell(cells, mapping.asset))
+    const fee = parseNumberWithUnit(getCell(cells, mapping.fee))
+
+    const feeCurrency = readFeeCurrency(fee.unit, fee.value, asset, "KRW")
+    if (!feeCurrency) return rejectFeeCurrency(fee.unit, asset, "KRW")
+
+    return acceptRow(
+      {
+        externalId: null,
+        account: bithumbFormat.label,
+        date: readDate(getCell(cells, mapping.date), warnings),
+        asset,
+        type,
+        amount: parseNumberWithUnit(getCell(cells, mapping.amount)).value,
+        price: parseNumberWithUnit(getCell(cells, mapping.price)).value,
+        fee: Math.abs(fee.value),
+        feeCurrency,
+        quoteCurrency: "KRW",
+      },
+      warnings
+    )
+  },
+}
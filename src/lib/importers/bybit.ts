@@ -0,0 +1,58 @@
+import {
+  acceptRow,
+  getCell,
+  hasColumns,
+  mapColumnsByName,
+  normalizeNumber,
+  readDate,
+  rejectRow,
+  splitPair,
+} from "@/lib/importers/csv"
+import type { ImportFormat } from "@/lib/importers/types"
+
+// 바이비트 현물 거래내역 내보내기:
+// Spot Pairs,Order Type,Direction,Filled Value,Filled Price,Filled Quantity,Fees,Transaction ID,Order No.,Timestamp (UTC)
+// 매수 수수료는 받은 코인으로, 매도 수수료는 호가 통화로 빠진다.
+export const bybitFormat: ImportFormat = {
+  id: "bybit",
+  label: "바이비트",
+  detect: (header) =>
+    hasColumns(header, ["spot pairs", "direction", "filled price", "filled quantity"]),
+  mapColumns: (header) =>
+    mapColumnsByName(header, {
+      externalId: ["transaction id"],
+      date: ["timestamp (utc)"],
+      asset: ["spot pairs"],
+      type: ["direction"],
+      price: ["filled price"],
+      amount: ["filled quantity"],
+      total: ["filled value"],
+      fee: ["fees"],
+    }),
+  createRowParser: (mapping) => (cells) => {
+    const side = getCell(cells, mapping.type)?.trim().toUpperCase() ?? ""
+    if (side !== "BUY" && side !== "SELL") {
+      return rejectRow(`알 수 없는 매매 구분입니다: ${side || "(빈 값)"}`)
+    }
+
+    const warnings: string[] = []
+    const { base, quote } = splitPair(getCell(cells, mapping.asset))
+    if (!quote) warnings.push("페어에서 호가 통화를 찾지 못했습니다.")
+
+    return acceptRow(
+      {
+        externalId: getCell(cells, mapping.externalId)?.trim() || null,
+        account: bybitFormat.label,
+        date: readDate(getCell(cells, mapping.date), warnings, { utc: true }),
+        asset: base,
+        type: side === "BUY" ? "buy" : "sell",
+        amount: normalizeNumber(getCell(cells, mapping.amount)),
+        price: normalizeNumber(getCell(cells, mapping.price)),
+        fee: Math.abs(normalizeNumber(getCell(cells, mapping.fee))),
+        feeCurrency: side === "BUY" ? "asset" : "KRW",
+        quoteCurrency: quote,
+      },
+      warnings
+    )
+  },
+}
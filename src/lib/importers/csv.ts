@@ -0,0 +1,209 @@
+import type {
+  ColumnMapping,
+  ImportedRow,
+  ImportField,
+  RowParseResult,
+} from "@/lib/importers/types"
+import { normalizeAsset, todayIsoDate, type FeeCurrency } from "@/lib/trades"
+import { isIncome } from "@/lib/income"
+import { isTransfer } from "@/lib/transfers"
+
+export const parseCsvLine = (line: string) => {
+  const result: string[] = []
+  let current = ""
+  let insideQuotes = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    const next = line[i + 1]
+
+    if (char === '"' && next === '"') {
+      current += '"'
+      i++
+      continue
+    }
+
+    if (char === '"') {
+      insideQuotes = !insideQuotes
+      continue
+    }
+
+    if (char === "," && !insideQuotes) {
+      result.push(current.trim())
+      current = ""
+    } else {
+      current += char
+    }
+  }
+
+  result.push(current.trim())
+  return result
+}
+
+export interface CsvTable {
+  /** 소문자로 정규화한 헤더 */
+  header: string[]
+  rows: string[][]
+}
+
+export const readCsv = (text: string): CsvTable => {
+  const lines = text
+    .replace(/^\uFEFF/, "")
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+
+  if (lines.length === 0) return { header: [], rows: [] }
+
+  return {
+    header: parseCsvLine(lines[0]).map((cell) => cell.toLowerCase()),
+    rows: lines.slice(1).map(parseCsvLine),
+  }
+}
+
+export const getCell = (cells: string[], idx: number) =>
+  idx >= 0 && idx < cells.length ? cells[idx] : undefined
+
+/** 헤더 이름이 정확히 일치하는 열을 찾는다. */
+export const findColumn = (header: string[], names: string[]) =>
+  header.findIndex((col) => names.includes(col))
+
+export const hasColumns = (header: string[], names: string[]) =>
+  names.every((name) => header.includes(name))
+
+export const EMPTY_MAPPING: ColumnMapping = {
+  externalId: -1,
+  account: -1,
+  date: -1,
+  asset: -1,
+  quote: -1,
+  type: -1,
+  amount: -1,
+  price: -1,
+  total: -1,
+  fee: -1,
+  feeCurrency: -1,
+}
+
+/** 필드별 헤더 이름 목록으로 정확히 일치하는 열을 배정한다. */
+export const mapColumnsByName = (
+  header: string[],
+  names: Partial<Record<ImportField, string[]>>
+): ColumnMapping => {
+  const mapping = { ...EMPTY_MAPPING }
+  for (const [field, candidates] of Object.entries(names) as [ImportField, string[]][]) {
+    mapping[field] = findColumn(header, candidates)
+  }
+  return mapping
+}
+
+export const normalizeNumber = (value: string | undefined) => {
+  if (!value) return NaN
+  const cleaned = value.replace(/,/g, "").trim()
+  return cleaned ? Number.parseFloat(cleaned) : NaN
+}
+
+/** "0.00100000BTC", "1,234 KRW"처럼 단위가 붙은 숫자를 나눈다. */
+export const parseNumberWithUnit = (value: string | undefined) => {
+  const match = (value || "").replace(/,/g, "").trim().match(/^(-?[\d.]+(?:e-?\d+)?)\s*([A-Za-z]*)$/i)
+  if (!match) return { value: NaN, unit: "" }
+  return { value: Number.parseFloat(match[1]), unit: match[2].toUpperCase() }
+}
+
+const pad = (value: number) => String(value).padStart(2, "0")
+
+const KST_OFFSET_MS = 9 * 60 * 60 * 1000
+
+/**
+ * 날짜를 YYYY-MM-DD로 맞춘다. utc가 true면 해외 거래소의 UTC 시각을 한국 시간 기준 날짜로 옮긴다.
+ */
+export const normalizeDate = (value: string | undefined, { utc = false } = {}) => {
+  if (!value) return todayIsoDate()
+  const match = value
+    .trim()
+    .match(/^(\d{4})[.\-/](\d{1,2})[.\-/](\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/)
+
+  if (match) {
+    const [, year, month, day, hour, minute, second] = match
+    if (!utc || hour === undefined) return `${year}-${pad(Number(month))}-${pad(Number(day))}`
+    const shifted = new Date(
+      Date.UTC(
+        Number(year),
+        Number(month) - 1,
+        Number(day),
+        Number(hour),
+        Number(minute),
+        Number(second ?? 0)
+      ) + KST_OFFSET_MS
+    )
+    return shifted.toISOString().slice(0, 10)
+  }
+
+  const parsed = new Date(value)
+  if (!Number.isNaN(parsed.getTime())) {
+    return parsed.toISOString().slice(0, 10)
+  }
+  return value.slice(0, 10)
+}
+
+const QUOTE_CURRENCIES = ["USDT", "USDC", "FDUSD", "BUSD", "TUSD", "KRW", "BTC", "ETH", "BNB", "EUR", "TRY"]
+
+/** "BTCUSDT", "BTC/USDT", "BTC-USDT" 같은 페어를 기준 자산과 호가 통화로 나눈다. */
+export const splitPair = (value: string | undefined) => {
+  const pair = (value || "").trim().toUpperCase()
+  const separated = pair.split(/[/\-_]/)
+  if (separated.length === 2) return { base: separated[0], quote: separated[1] }
+
+  const quote = QUOTE_CURRENCIES.find((candidate) => pair.endsWith(candidate) && pair !== candidate)
+  if (!quote) return { base: pair, quote: "" }
+  return { base: pair.slice(0, -quote.length), quote }
+}
+
+/**
+ * 수수료 단위를 거래 자산이나 호가 통화로 읽는다. 단위가 없으면 호가 통화로 본다.
+ * BNB처럼 둘 다 아닌 코인으로 낸 수수료는 원화 가치를 알 수 없으므로 null을 돌려준다.
+ */
+export const readFeeCurrency = (
+  unit: string,
+  fee: number,
+  asset: string,
+  quote: string
+): FeeCurrency | null => {
+  const value = normalizeAsset(unit)
+  if (value && value === asset) return "asset"
+  if (!value || value === quote || !fee) return "KRW"
+  return null
+}
+
+/** readFeeCurrency가 null일 때 행을 거절하는 사유 */
+export const rejectFeeCurrency = (unit: string, asset: string, quote: string) =>
+  rejectRow(
+    `수수료를 ${normalizeAsset(unit)}로 냈습니다. 거래 자산(${asset || "?"})이나 호가 통화(${quote || "?"})가 아닌 코인의 수수료는 가져오지 않으니 이 거래는 직접 입력하세요.`
+  )
+
+export const rejectRow = (reason: string): RowParseResult => ({ ok: false, reason })
+
+/** 어댑터가 읽은 행에 공통 검사를 적용한다. */
+export const acceptRow = (row: ImportedRow, warnings: string[] = []): RowParseResult => {
+  // 이체는 단가를 쓰지 않고, 수령 소득은 단가가 없으면 시세로 평가하므로 비어 있어도 받아들인다
+  const unpriced = isTransfer(row.type) || isIncome(row.type)
+  const price = unpriced && !Number.isFinite(row.price) ? 0 : row.price
+  if (!Number.isFinite(row.amount)) return rejectRow("수량을 읽을 수 없습니다.")
+  if (!Number.isFinite(price)) return rejectRow("단가를 읽을 수 없습니다.")
+  if (row.amount <= 0) return rejectRow("수량이 0 이하입니다.")
+  if (price < 0) return rejectRow("단가가 음수입니다.")
+
+  const checked = [...warnings]
+  if (!row.asset) checked.push("자산(코인) 값이 비어 있습니다.")
+  if (price === 0 && !unpriced) checked.push("단가가 0입니다.")
+  return {
+    ok: true,
+    row: { ...row, price, fee: Number.isFinite(row.fee) ? row.fee : 0 },
+    warnings: checked,
+  }
+}
+
+export const readDate = (value: string | undefined, warnings: string[], options?: { utc?: boolean }) => {
+  if (!value?.trim()) warnings.push("날짜가 없어 오늘 날짜로 채웠습니다.")
+  return normalizeDate(value, options)
+}
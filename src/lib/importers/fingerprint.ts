@@ -0,0 +1,32 @@
+import type { ImportedRow, ImportFormatId } from "@/lib/importers/types"
+
+// FNV-1a 32비트. 충돌 방지보다 짧고 안정적인 키가 목적이다.
+const hashString = (value: string) => {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0")
+}
+
+const rowKey = (row: ImportedRow) =>
+  [row.account, row.date, row.asset, row.type, row.amount, row.price, row.quoteCurrency].join("|")
+
+/**
+ * 가져온 행마다 재가져오기 때 같은 값이 나오는 지문을 만든다.
+ * 거래소 거래 ID가 있으면 그것을 쓰고, 없으면 계정·날짜·자산·구분·수량·단가의 해시를 쓴다.
+ * 계정을 넣어 두 거래소에서 값이 같은 체결이 서로 중복으로 빠지지 않게 한다.
+ * 한 파일 안에 값이 똑같은 체결이 여러 건 있으면 몇 번째인지를 덧붙여 서로 구분한다.
+ */
+export const fingerprintRows = (formatId: ImportFormatId, rows: ImportedRow[]) => {
+  const occurrences = new Map<string, number>()
+
+  return rows.map((row) => {
+    if (row.externalId) return `${formatId}:${row.externalId}`
+    const key = hashString(rowKey(row))
+    const count = (occurrences.get(key) ?? 0) + 1
+    occurrences.set(key, count)
+    return `h:${key}#${count}`
+  })
+}
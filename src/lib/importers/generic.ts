@@ -0,0 +1,118 @@
+import {
+  acceptRow,
+  EMPTY_MAPPING,
+  getCell,
+  normalizeNumber,
+  readDate,
+  readFeeCurrency,
+  rejectFeeCurrency,
+} from "@/lib/importers/csv"
+import type { ColumnMapping, ImportField, ImportFormat } from "@/lib/importers/types"
+import type { IncomeCategory } from "@/lib/income"
+import { normalizeAsset, type TradeType } from "@/lib/trades"
+
+// 더 구체적인 열부터 배정해 "amount(krw)"와 "amount"가 같은 열로 잡히지 않게 한다
+const FIELD_CANDIDATES: [ImportField, string[]][] = [
+  ["externalId", ["trade id", "trade_id", "tradeid", "txid", "transaction id", "체결번호"]],
+  ["account", ["account", "wallet", "exchange", "계정", "지갑", "거래소"]],
+  ["date", ["date", "time", "timestamp", "일시", "거래일시"]],
+  ["quote", ["quote_currency", "quote currency", "quote", "결제통화"]],
+  ["asset", ["asset", "coin", "symbol", "ticker", "market", "코인", "자산"]],
+  ["type", ["side", "type", "trade", "구분", "거래유형"]],
+  [
+    "feeCurrency",
+    ["fee_currency", "fee currency", "fee coin", "fee asset", "commission asset", "수수료 통화", "수수료통화"],
+  ],
+  ["fee", ["fee", "commission", "수수료"]],
+  ["total", ["total", "amount(krw)", "krw", "fill total", "거래금액"]],
+  ["price", ["price", "가격", "단가"]],
+  ["amount", ["amount", "qty", "quantity", "volume", "수량"]],
+]
+
+export const resolveGenericColumns = (header: string[]): ColumnMapping => {
+  const used = new Set<number>()
+  const mapping = { ...EMPTY_MAPPING }
+
+  for (const [field, candidates] of FIELD_CANDIDATES) {
+    const available = (idx: number) => !used.has(idx)
+    let idx = header.findIndex((col, i) => available(i) && candidates.includes(col))
+    if (idx < 0) {
+      idx = header.findIndex(
+        (col, i) => available(i) && candidates.some((candidate) => col.includes(candidate))
+      )
+    }
+    if (idx >= 0) used.add(idx)
+    mapping[field] = idx
+  }
+
+  return mapping
+}
+
+const BUY_WORDS = ["매수", "bid", "buy"]
+const SELL_WORDS = ["매도", "ask", "sell"]
+const DEPOSIT_WORDS = ["입금", "deposit"]
+const WITHDRAWAL_WORDS = ["출금", "withdraw"]
+const INCOME_WORDS: [IncomeCategory, string[]][] = [
+  ["airdrop", ["airdrop", "에어드랍", "에어드롭"]],
+  ["staking", ["staking", "stake", "스테이킹"]],
+  ["mining", ["mining", "채굴"]],
+  ["interest", ["interest", "이자"]],
+]
+
+/** 구분 값을 매수/매도/수령 소득/이체로 읽는다. 확실하지 않은 분류는 경고 문구를 함께 돌려준다. */
+export const toTradeType = (raw: string | undefined): { type: TradeType; warning?: string } => {
+  const value = (raw || "").toLowerCase()
+  if (BUY_WORDS.some((word) => value.includes(word))) return { type: "buy" }
+  if (SELL_WORDS.some((word) => value.includes(word))) return { type: "sell" }
+  const income = INCOME_WORDS.find(([, words]) => words.some((word) => value.includes(word)))
+  if (income) return { type: income[0] }
+  if (DEPOSIT_WORDS.some((word) => value.includes(word))) return { type: "transferIn" }
+  if (WITHDRAWAL_WORDS.some((word) => value.includes(word))) return { type: "transferOut" }
+  return { type: "sell", warning: `알 수 없는 구분(${raw || "빈 값"})을 매도로 추정했습니다.` }
+}
+
+export const genericFormat: ImportFormat = {
+  id: "generic",
+  label: "일반 (열 이름 추정)",
+  detect: () => true,
+  mapColumns: resolveGenericColumns,
+  createRowParser: (mapping) => (cells) => {
+    const warnings: string[] = []
+    const amount = normalizeNumber(getCell(cells, mapping.amount))
+    const price = normalizeNumber(getCell(cells, mapping.price))
+    const total = normalizeNumber(getCell(cells, mapping.total))
+
+    let resolvedPrice = price
+    if (!(Number.isFinite(price) && price > 0) && Number.isFinite(total) && amount > 0) {
+      resolvedPrice = total / amount
+      warnings.push("단가가 없어 총액 ÷ 수량으로 계산했습니다.")
+    }
+
+    const asset = normalizeAsset(getCell(cells, mapping.asset))
+    const { type, warning } = toTradeType(getCell(cells, mapping.type))
+    if (warning) warnings.push(warning)
+    const quote = normalizeAsset(getCell(cells, mapping.quote)) || "KRW"
+    const fee = Math.abs(normalizeNumber(getCell(cells, mapping.fee)))
+    // 국내 거래소 내보내기는 수수료 통화를 "원"으로 적기도 한다
+    const rawFeeUnit = getCell(cells, mapping.feeCurrency)?.trim() ?? ""
+    const feeUnit = rawFeeUnit === "원" ? "KRW" : rawFeeUnit
+    const feeCurrency = readFeeCurrency(feeUnit, fee, asset, quote)
+    if (!feeCurrency) return rejectFeeCurrency(feeUnit, asset, quote)
+
+    return acceptRow(
+      {
+        externalId: getCell(cells, mapping.externalId)?.trim() || null,
+        account: getCell(cells, mapping.account)?.trim() ?? "",
+        date: readDate(getCell(cells, mapping.date), warnings),
+        asset,
+        type,
+        amount,
+        price: resolvedPrice,
+        fee,
+        feeCurrency,
+        quoteCurrency: quote,
+      },
+      warnings
+    )
+  },
+}
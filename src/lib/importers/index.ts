@@ -0,0 +1,176 @@
+import { binanceFormat } from "@/lib/importers/binance"
+import { bithumbFormat } from "@/lib/importers/bithumb"
+import { bybitFormat } from "@/lib/importers/bybit"
+import { type CsvTable } from "@/lib/importers/csv"
+import { fingerprintRows } from "@/lib/importers/fingerprint"
+import { genericFormat } from "@/lib/importers/generic"
+import type {
+  ColumnMapping,
+  ImportedRow,
+  ImportField,
+  ImportFormat,
+  ImportFormatId,
+} from "@/lib/importers/types"
+import { upbitFormat } from "@/lib/importers/upbit"
+import type { Trade } from "@/lib/trades"
+
+export { readCsv, type CsvTable } from "@/lib/importers/csv"
+export type {
+  ColumnMapping,
+  ImportedRow,
+  ImportField,
+  ImportFormat,
+  ImportFormatId,
+} from "@/lib/importers/types"
+
+export const AUTO_DETECT_FORMAT = "auto"
+
+// 감지 순서대로 둔다. 일반 형식은 항상 마지막이다.
+export const IMPORT_FORMATS: ImportFormat[] = [
+  upbitFormat,
+  bithumbFormat,
+  binanceFormat,
+  bybitFormat,
+  genericFormat,
+]
+
+export const IMPORT_FIELD_LABELS: Record<ImportField, string> = {
+  externalId: "거래 ID",
+  account: "계정",
+  date: "날짜",
+  asset: "자산",
+  quote: "호가 통화",
+  type: "구분",
+  amount: "수량",
+  price: "단가",
+  total: "총액",
+  fee: "수수료",
+  feeCurrency: "수수료 통화",
+}
+
+export const detectImportFormat = (header: string[]) =>
+  IMPORT_FORMATS.find((format) => format.detect(header)) ?? genericFormat
+
+export const resolveImportFormat = (
+  header: string[],
+  formatId: ImportFormatId | typeof AUTO_DETECT_FORMAT
+) =>
+  formatId === AUTO_DETECT_FORMAT
+    ? detectImportFormat(header)
+    : (IMPORT_FORMATS.find((format) => format.id === formatId) ?? genericFormat)
+
+export interface AcceptedImportRow {
+  /** 헤더를 1행으로 센 CSV 줄 번호 */
+  line: number
+  row: ImportedRow
+  fingerprint: string
+  warnings: string[]
+}
+
+export interface RejectedImportRow {
+  line: number
+  cells: string[]
+  reason: string
+}
+
+export interface ImportPreview {
+  format: ImportFormat
+  mapping: ColumnMapping
+  accepted: AcceptedImportRow[]
+  rejected: RejectedImportRow[]
+}
+
+/** 거래 목록에 넣기 전에 각 행을 읽고, 받아들인 행과 거부한 행을 사유와 함께 나눈다. */
+export const previewImport = (
+  table: CsvTable,
+  format: ImportFormat,
+  mapping: ColumnMapping = format.mapColumns(table.header)
+): ImportPreview => {
+  const parseRow = format.createRowParser(mapping)
+  const parsed: Omit<AcceptedImportRow, "fingerprint">[] = []
+  const rejected: RejectedImportRow[] = []
+
+  table.rows.forEach((cells, index) => {
+    const line = index + 2
+    const result = parseRow(cells)
+    if (result.ok) parsed.push({ line, row: result.row, warnings: result.warnings })
+    else rejected.push({ line, cells, reason: result.reason })
+  })
+
+  const fingerprints = fingerprintRows(format.id, parsed.map((item) => item.row))
+  const accepted = parsed.map((item, index) => ({ ...item, fingerprint: fingerprints[index] }))
+
+  return { format, mapping, accepted, rejected }
+}
+
+export type DuplicateStrategy = "skip" | "replace"
+
+export const DUPLICATE_STRATEGY_LABELS: Record<DuplicateStrategy, string> = {
+  skip: "기존 거래 유지",
+  replace: "가져온 값으로 갱신",
+}
+
+export const importedRowToTrade = (row: ImportedRow, fingerprint: string | null = null): Trade => ({
+  id: crypto.randomUUID(),
+  date: row.date,
+  asset: row.asset,
+  type: row.type,
+  account: row.account,
+  amount: row.amount,
+  price: row.price,
+  fee: row.fee,
+  feeCurrency: row.feeCurrency,
+  quoteCurrency: row.quoteCurrency || "KRW",
+  acquiredAsset: "",
+  acquiredAmount: 0,
+  acquiredAmountInput: "",
+  transferLinkId: null,
+  amountInput: String(row.amount),
+  priceInput: String(row.price),
+  feeInput: row.fee ? String(row.fee) : "",
+  importFingerprint: fingerprint,
+})
+
+/**
+ * 가져온 행을 기존 거래 목록에 합친다. 지문이 같은 거래는 전략에 따라 건너뛰거나 값을 갱신한다.
+ */
+export const mergeImportedRows = (
+  trades: Trade[],
+  rows: { row: ImportedRow; fingerprint: string }[],
+  strategy: DuplicateStrategy
+) => {
+  const existing = new Map<string, Trade>()
+  for (const trade of trades) {
+    if (trade.importFingerprint) existing.set(trade.importFingerprint, trade)
+  }
+
+  const replacements = new Map<string, Trade>()
+  const added: Trade[] = []
+  let duplicates = 0
+
+  for (const { row, fingerprint } of rows) {
+    const match = existing.get(fingerprint)
+    if (!match) {
+      const trade = importedRowToTrade(row, fingerprint)
+      existing.set(fingerprint, trade)
+      added.push(trade)
+      continue
+    }
+    duplicates++
+    if (strategy === "replace") {
+      // 거래소 값만 새로 쓰고 사용자가 정한 계정과 이체 연결은 그대로 둔다
+      replacements.set(match.id, {
+        ...importedRowToTrade(row, fingerprint),
+        id: match.id,
+        account: match.account,
+        transferLinkId: match.transferLinkId,
+      })
+    }
+  }
+
+  return {
+    trades: [...trades.map((trade) => replacements.get(trade.id) ?? trade), ...added],
+    added: added.length,
+    duplicates,
+  }
+}
@@ -0,0 +1,49 @@
+import type { FeeCurrency, TradeType } from "@/lib/trades"
+
+export type ImportFormatId = "generic" | "upbit" | "bithumb" | "binance" | "bybit"
+
+export type ImportField =
+  | "externalId"
+  | "account"
+  | "date"
+  | "asset"
+  | "quote"
+  | "type"
+  | "amount"
+  | "price"
+  | "total"
+  | "fee"
+  | "feeCurrency"
+
+/** 필드별 CSV 열 번호. 없는 필드는 -1이다. */
+export type ColumnMapping = Record<ImportField, number>
+
+/** 거래소 CSV 한 행을 읽어 얻은 거래. 가격과 수수료는 quoteCurrency 기준이다. */
+export interface ImportedRow {
+  /** 거래소가 부여한 체결 ID. 없으면 null */
+  externalId: string | null
+  /** 거래소나 지갑 이름. 거래소 형식은 자기 이름을 넣는다. */
+  account: string
+  date: string
+  asset: string
+  type: TradeType
+  amount: number
+  price: number
+  fee: number
+  feeCurrency: FeeCurrency
+  quoteCurrency: string
+}
+
+export type RowParseResult =
+  | { ok: true; row: ImportedRow; warnings: string[] }
+  | { ok: false; reason: string }
+
+export interface ImportFormat {
+  id: ImportFormatId
+  label: string
+  /** 소문자 헤더로 이 거래소의 내보내기 형식인지 판별한다. */
+  detect: (header: string[]) => boolean
+  mapColumns: (header: string[]) => ColumnMapping
+  /** 열 매핑에 맞춘 행 파서를 만든다. */
+  createRowParser: (mapping: ColumnMapping) => (cells: string[]) => RowParseResult
+}
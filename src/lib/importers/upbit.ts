@@ -0,0 +1,62 @@
+import {
+  acceptRow,
+  getCell,
+  hasColumns,
+  mapColumnsByName,
+  parseNumberWithUnit,
+  readDate,
+  readFeeCurrency,
+  rejectFeeCurrency,
+  rejectRow,
+} from "@/lib/importers/csv"
+import type { ImportFormat } from "@/lib/importers/types"
+import { normalizeAsset } from "@/lib/trades"
+
+// 업비트 거래내역 내보내기:
+// 체결시간,코인,마켓,종류,거래수량,거래단가,거래금액,수수료,정산금액,주문시간
+const SIDES: Record<string, "buy" | "sell"> = { 매수: "buy", 매도: "sell" }
+
+export const upbitFormat: ImportFormat = {
+  id: "upbit",
+  label: "업비트",
+  detect: (header) => hasColumns(header, ["체결시간", "코인", "마켓", "종류", "거래단가", "정산금액"]),
+  mapColumns: (header) =>
+    mapColumnsByName(header, {
+      date: ["체결시간"],
+      asset: ["코인"],
+      quote: ["마켓"],
+      type: ["종류"],
+      amount: ["거래수량"],
+      price: ["거래단가"],
+      total: ["거래금액"],
+      fee: ["수수료"],
+    }),
+  createRowParser: (mapping) => (cells) => {
+    const side = getCell(cells, mapping.type)?.trim() ?? ""
+    const type = SIDES[side]
+    if (!type) return rejectRow(`거래가 아닌 종류입니다: ${side || "(빈 값)"}`)
+
+    const warnings: string[] = []
+    const asset = normalizeAsset(getCell(cells, mapping.asset))
+    const fee = parseNumberWithUnit(getCell(cells, mapping.fee))
+    const quote = normalizeAsset(getCell(cells, mapping.quote)) || "KRW"
+    const feeCurrency = readFeeCurrency(fee.unit, fee.value, asset, quote)
+    if (!feeCurrency) return rejectFeeCurrency(fee.unit, asset, quote)
+
+    return acceptRow(
+      {
+        externalId: null,
+        account: upbitFormat.label,
+        date: readDate(getCell(cells, mapping.date), warnings),
+        asset,
+        type,
+        amount: parseNumberWithUnit(getCell(cells, mapping.amount)).value,
+        price: parseNumberWithUnit(getCell(cells, mapping.price)).value,
+        fee: Math.abs(fee.value),
+        feeCurrency,
+        quoteCurrency: quote,
+      },
+      warnings
+    )
+  },
+}
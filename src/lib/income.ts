@@ -0,0 +1,119 @@
+import type { MarketPriceLookup } from "@/lib/price-history"
+import { taxYearOf, type Trade, type TradeType } from "@/lib/trades"
+
+export type IncomeCategory = "airdrop" | "staking" | "mining" | "interest"
+
+export const INCOME_CATEGORIES: IncomeCategory[] = ["airdrop", "staking", "mining", "interest"]
+
+export const isIncome = (type: TradeType): type is IncomeCategory =>
+  (INCOME_CATEGORIES as TradeType[]).includes(type)
+
+/**
+ * 수령 소득을 세금 계산에 어떻게 반영할지.
+ * - taxable: 수령 시 시가를 과세 대상 소득에 더하고, 그 시가를 취득가액으로 쓴다.
+ * - reportOnly: 시가를 별도 소득으로 보여 주기만 하고, 취득가액은 시가로 둔다.
+ * - zeroBasis: 수령 시에는 과세하지 않고, 취득가액 0으로 두어 팔 때 전액 과세한다.
+ */
+export type IncomeTreatment = "taxable" | "reportOnly" | "zeroBasis"
+
+export const INCOME_TREATMENT_LABELS: Record<IncomeTreatment, string> = {
+  taxable: "수령 시 과세 (시가 = 취득가액)",
+  reportOnly: "별도 소득으로 표시만",
+  zeroBasis: "수령 시 비과세 (취득가액 0)",
+}
+
+export type IncomeTreatments = Record<IncomeCategory, IncomeTreatment>
+
+export const DEFAULT_INCOME_TREATMENTS: IncomeTreatments = {
+  airdrop: "taxable",
+  staking: "taxable",
+  mining: "taxable",
+  interest: "taxable",
+}
+
+export type IncomeValuationSource = "entered" | "market" | "missing"
+
+/** 수령 시점의 원화 시가 */
+export interface IncomeValuation {
+  value: number
+  source: IncomeValuationSource
+}
+
+export const INCOME_VALUATION_LABELS: Record<IncomeValuationSource, string> = {
+  entered: "입력 단가",
+  market: "당일 시세",
+  missing: "시세 없음",
+}
+
+/** 과세연도별 수령 소득. 범주별 금액은 처리 방법과 관계없이 수령 시가 합계다. */
+export interface IncomeYear {
+  year: string
+  categories: Record<IncomeCategory, number>
+  /** 과세 대상 소득에 더하는 금액 */
+  taxable: number
+}
+
+/** 입력한 단가(원화 환산 후)가 있으면 그 값으로, 없으면 받은 날의 종가로 평가한다. */
+export const valueIncome = (trade: Trade, marketPrice?: MarketPriceLookup): IncomeValuation => {
+  if (trade.price > 0) return { value: trade.amount * trade.price, source: "entered" }
+  const market = marketPrice?.(trade.asset, trade.date)
+  if (market) return { value: trade.amount * market.close, source: "market" }
+  return { value: 0, source: "missing" }
+}
+
+const emptyCategories = (): Record<IncomeCategory, number> => ({
+  airdrop: 0,
+  staking: 0,
+  mining: 0,
+  interest: 0,
+})
+
+/**
+ * 수령 소득 거래의 단가를 처리 방법에 맞는 취득 단가로 바꾸고, 과세연도별 소득을 모은다.
+ * 손익 엔진에는 이 함수가 돌려준 거래를 넘긴다.
+ */
+export const valueIncomeEvents = (
+  trades: Trade[],
+  treatments: IncomeTreatments,
+  marketPrice?: MarketPriceLookup
+) => {
+  const valuations = new Map<string, IncomeValuation>()
+  const years = new Map<string, IncomeYear>()
+
+  const valued = trades.map((trade) => {
+    if (!isIncome(trade.type) || trade.amount <= 0) return trade
+    const valuation = valueIncome(trade, marketPrice)
+    const treatment = treatments[trade.type]
+    valuations.set(trade.id, valuation)
+
+    const year = taxYearOf(trade.date)
+    const income = years.get(year) ?? { year, categories: emptyCategories(), taxable: 0 }
+    income.categories[trade.type] += valuation.value
+    if (treatment === "taxable") income.taxable += valuation.value
+    years.set(year, income)
+
+    return {
+      ...trade,
+      price: treatment === "zeroBasis" ? 0 : valuation.value / trade.amount,
+    }
+  })
+
+  return {
+    trades: valued,
+    valuations,
+    years: [...years.values()].sort((a, b) => a.year.localeCompare(b.year)),
+  }
+}
+
+/** 여러 과세연도의 수령 소득을 합산한다. */
+export const sumIncomeYears = (years: IncomeYear[]) =>
+  years.reduce(
+    (acc, income) => {
+      for (const category of INCOME_CATEGORIES) {
+        acc.categories[category] += income.categories[category]
+      }
+      acc.taxable += income.taxable
+      return acc
+    },
+    { categories: emptyCategories(), taxable: 0 }
+  )
@@ -0,0 +1,199 @@
+import { COST_BASIS_METHODS, type CostBasisResult } from "@/lib/cost-basis"
+import { openingBalanceTrades, type OpeningBalance } from "@/lib/opening-balances"
+import type { MarketPriceLookup } from "@/lib/price-history"
+import type { Sheet } from "@/lib/spreadsheet"
+import { expandSwaps, type SwapSide } from "@/lib/swaps"
+import type { TaxYearReport } from "@/lib/tax"
+import type { TaxRuleProfile } from "@/lib/tax-rules"
+import {
+  feeInKrw,
+  normalizeAsset,
+  sortTradesByDate,
+  TRADE_TYPE_LABELS,
+  UNKNOWN_ASSET_LABEL,
+  type Trade,
+  type TradeType,
+} from "@/lib/trades"
+import { expandTransfers } from "@/lib/transfers"
+
+/** 원장 한 줄. 매수 행은 매도 관련 값이 null이다. */
+export interface LedgerRow {
+  tradeId: string
+  date: string
+  asset: string
+  type: TradeType
+  account: string
+  /** 기초 보유분(의제취득가액)에서 만든 행 */
+  openingBalance: boolean
+  /** 스왑은 보낸 쪽과 받은 쪽 두 행으로 나온다. */
+  swapSide: SwapSide | null
+  amount: number
+  price: number
+  total: number
+  /** 원화 환산 수수료. 출금 수수료 행은 필요경비로 잡힌 취득가액이다. */
+  fee: number
+  proceeds: number | null
+  costBasis: number | null
+  gain: number | null
+  holdingAmount: number
+  holdingCost: number
+}
+
+const SWAP_SIDE_LABELS: Record<SwapSide, string> = {
+  disposed: "스왑 (보냄)",
+  acquired: "스왑 (받음)",
+}
+
+export const ledgerTypeLabel = (row: LedgerRow) => {
+  if (row.openingBalance) return "기초 보유"
+  if (row.swapSide) return SWAP_SIDE_LABELS[row.swapSide]
+  return TRADE_TYPE_LABELS[row.type]
+}
+
+/**
+ * 거래마다 대응된 취득가액, 실현 손익, 거래 직후 보유 잔고를 한 줄로 펼친다.
+ * 손익 계산 때와 같은 시세를 넘겨야 스왑 평가액이 맞는다.
+ */
+export const buildLedger = (
+  trades: Trade[],
+  result: CostBasisResult,
+  openingBalances: OpeningBalance[] = [],
+  marketPrice?: MarketPriceLookup
+): LedgerRow[] => {
+  const openingTrades = openingBalanceTrades(openingBalances)
+  const openingIds = new Set(openingTrades.map((trade) => trade.id))
+  const balances = new Map(
+    result.assets.flatMap((asset) => asset.balances).map((balance) => [balance.tradeId, balance])
+  )
+  const sales = new Map(result.sales.map((sale) => [sale.tradeId, sale]))
+
+  const expanded = expandSwaps(expandTransfers([...openingTrades, ...trades]), marketPrice)
+
+  return sortTradesByDate(expanded.trades).flatMap((trade) => {
+    const balance = balances.get(trade.id)
+    if (!balance) return []
+    const sale = sales.get(trade.id)
+    const leg = expanded.legs.get(trade.id)
+
+    return [
+      {
+        tradeId: trade.id,
+        date: trade.date,
+        asset: normalizeAsset(trade.asset),
+        type: leg ? "swap" : trade.type,
+        account: trade.account,
+        openingBalance: openingIds.has(trade.id),
+        swapSide: leg?.side ?? null,
+        amount: trade.amount,
+        price: trade.price,
+        total: trade.amount * trade.price,
+        fee: sale?.fee ?? feeInKrw(trade),
+        proceeds: sale?.proceeds ?? null,
+        costBasis: sale?.costBasis ?? null,
+        gain: sale?.gain ?? null,
+        holdingAmount: balance.holdingAmount,
+        holdingCost: balance.holdingCost,
+      },
+    ]
+  })
+}
+
+export const ledgerSheet = (rows: LedgerRow[]): Sheet => ({
+  name: "거래 원장",
+  rows: [
+    [
+      "날짜",
+      "자산",
+      "구분",
+      "계정",
+      "수량",
+      "단가 (KRW)",
+      "거래금액 (KRW)",
+      "수수료 (KRW)",
+      "순매도금액 (KRW)",
+      "취득가액 (KRW)",
+      "실현 손익 (KRW)",
+      "보유 수량",
+      "보유 원가 (KRW)",
+    ],
+    ...rows.map((row) => [
+      row.date,
+      row.asset || UNKNOWN_ASSET_LABEL,
+      ledgerTypeLabel(row),
+      row.account,
+      row.amount,
+      row.price,
+      row.total,
+      row.fee,
+      row.proceeds,
+      row.costBasis,
+      row.gain,
+      row.holdingAmount,
+      row.holdingCost,
+    ]),
+  ],
+})
+
+export const yearSummarySheet = (reports: TaxYearReport[]): Sheet => ({
+  name: "연도별 요약",
+  rows: [
+    [
+      "과세연도",
+      "과세 여부",
+      "총 매수",
+      "총 매도",
+      "총 수수료",
+      "실현 손익",
+      "수령 소득 (과세 합산)",
+      "이월결손금 공제",
+      "과세 대상 소득",
+      "기본공제",
+      "과세표준",
+      "소득세",
+      "지방소득세",
+      "예상 세액",
+      "연말 보유 원가",
+    ],
+    ...reports.map((report) => [
+      report.year,
+      report.inEffect ? "과세" : "비과세",
+      report.totalBuy,
+      report.totalSell,
+      report.totalFee,
+      report.realizedGain,
+      report.income,
+      report.carriedLossUsed,
+      report.taxableGain,
+      report.deduction,
+      report.taxable,
+      report.nationalTax,
+      report.localTax,
+      report.tax,
+      report.holdingCost,
+    ]),
+  ],
+})
+
+/** 어떤 기준으로 계산했는지 남겨 두는 시트 */
+export const calculationBasisSheet = (result: CostBasisResult, profile: TaxRuleProfile): Sheet => ({
+  name: "계산 기준",
+  rows: [
+    ["항목", "값"],
+    [
+      "취득가액 산정",
+      COST_BASIS_METHODS.find((method) => method.value === result.method)?.label ?? result.method,
+    ],
+    ["세법 규칙", `${profile.name} (v${profile.version})`],
+    ["기본공제", profile.deduction],
+    ["소득세율", profile.nationalRate],
+    ["지방소득세율", profile.localRate],
+    ["자산 간 손익 통산", profile.lossNetting.netAcrossAssets ? "예" : "아니오"],
+    [
+      "결손금 이월 공제",
+      profile.lossNetting.carryForwardYears > 0
+        ? `${profile.lossNetting.carryForwardYears}년`
+        : "없음",
+    ],
+    ["작성 시각", new Date().toISOString()],
+  ],
+})
@@ -0,0 +1,67 @@
+import type { Trade } from "@/lib/trades"
+
+/** 과세 시행 전부터 보유한 자산. 의제취득가액 규정에 따라 취득 단가를 정한다. */
+export interface OpeningBalance {
+  id: string
+  asset: string
+  /** 의제취득 기준일 (보통 과세 시행일) */
+  date: string
+  /** 기준일에 보유하던 거래소나 지갑 */
+  account: string
+  amount: number
+  /** 실제 취득 단가. 모르면 null */
+  actualUnitCost: number | null
+  /** 기준일 시가 */
+  deemedUnitPrice: number
+  amountInput: string
+  actualUnitCostInput: string
+  deemedUnitPriceInput: string
+}
+
+export const createEmptyOpeningBalance = (date: string): OpeningBalance => ({
+  id: crypto.randomUUID(),
+  asset: "",
+  date,
+  account: "",
+  amount: 0,
+  actualUnitCost: null,
+  deemedUnitPrice: 0,
+  amountInput: "",
+  actualUnitCostInput: "",
+  deemedUnitPriceInput: "",
+})
+
+/** 실제 취득가액과 기준일 시가 중 큰 금액을 취득 단가로 본다. */
+export const deemedUnitCost = (balance: OpeningBalance) =>
+  Math.max(balance.actualUnitCost ?? 0, balance.deemedUnitPrice)
+
+/**
+ * 기초 보유분을 기준일의 매수 거래로 바꿔 손익 엔진이 일반 로트처럼 다루게 한다.
+ * 같은 날짜의 실제 거래보다 먼저 오도록 목록 앞에 붙여 쓴다.
+ */
+export const openingBalanceTrades = (balances: OpeningBalance[]): Trade[] =>
+  balances
+    .filter((balance) => balance.amount > 0)
+    .map((balance) => {
+      const price = deemedUnitCost(balance)
+      return {
+        id: balance.id,
+        date: balance.date,
+        asset: balance.asset,
+        type: "buy",
+        account: balance.account,
+        amount: balance.amount,
+        price,
+        fee: 0,
+        feeCurrency: "KRW",
+        quoteCurrency: "KRW",
+        acquiredAsset: "",
+        acquiredAmount: 0,
+        acquiredAmountInput: "",
+        transferLinkId: null,
+        amountInput: String(balance.amount),
+        priceInput: String(price),
+        feeInput: "",
+        importFingerprint: null,
+      }
+    })
@@ -0,0 +1,83 @@
+/** 페이지 한 장을 채우는 JPEG 이미지 */
+export interface PdfImagePage {
+  /** 픽셀 크기 */
+  width: number
+  height: number
+  jpeg: Uint8Array
+}
+
+/** A4 크기 (pt) */
+export const A4_PAGE = { width: 595.28, height: 841.89 }
+
+const encoder = new TextEncoder()
+
+/**
+ * 페이지마다 이미지 한 장을 깐 PDF를 만든다.
+ * 글꼴을 내장하지 않아도 한글이 그대로 보이도록, 본문은 캔버스에 그려 이미지로 넣는다.
+ */
+export const buildImagePdf = (pages: PdfImagePage[], pageSize = A4_PAGE) => {
+  const parts: Uint8Array[] = []
+  const offsets: number[] = []
+  let length = 0
+
+  const write = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === "string" ? encoder.encode(chunk) : chunk
+    parts.push(bytes)
+    length += bytes.length
+  }
+  const writeObject = (id: number, body: string, stream?: Uint8Array) => {
+    offsets[id] = length
+    write(`${id} 0 obj\n${body}\n`)
+    if (stream) {
+      write("stream\n")
+      write(stream)
+      write("\nendstream\n")
+    }
+    write("endobj\n")
+  }
+
+  const pageIds = pages.map((_, index) => 3 + index * 3)
+  const width = pageSize.width.toFixed(2)
+  const height = pageSize.height.toFixed(2)
+
+  write("%PDF-1.4\n")
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]))
+  writeObject(1, "<< /Type /Catalog /Pages 2 0 R >>")
+  writeObject(
+    2,
+    `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pages.length} >>`
+  )
+
+  pages.forEach((page, index) => {
+    const pageId = pageIds[index]
+    const content = encoder.encode(`q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`)
+    writeObject(
+      pageId,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ` +
+        `/Resources << /XObject << /Im0 ${pageId + 2} 0 R >> >> /Contents ${pageId + 1} 0 R >>`
+    )
+    writeObject(pageId + 1, `<< /Length ${content.length} >>`, content)
+    writeObject(
+      pageId + 2,
+      `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} ` +
+        `/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>`,
+      page.jpeg
+    )
+  })
+
+  const objectCount = 3 + pages.length * 3
+  const xrefOffset = length
+  write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`)
+  for (let id = 1; id < objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, "0")} 00000 n \n`)
+  }
+  write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`)
+
+  const output = new Uint8Array(length)
+  let position = 0
+  for (const part of parts) {
+    output.set(part, position)
+    position += part.length
+  }
+  return output
+}
@@ -0,0 +1,272 @@
+import type { CostBasisResult } from "@/lib/cost-basis"
+import { findKrwRate, type ExchangeRateTable } from "@/lib/exchange-rates"
+import { findColumn, getCell, normalizeDate, normalizeNumber, readCsv } from "@/lib/importers/csv"
+import { normalizeAsset, type Trade } from "@/lib/trades"
+
+export interface DailyCandle {
+  date: string
+  open: number
+  high: number
+  low: number
+  close: number
+}
+
+/** 자산 하나의 일별 시세. 가격은 quoteCurrency 기준이다. */
+export interface PriceSeries {
+  asset: string
+  quoteCurrency: string
+  /** 날짜 오름차순 */
+  candles: DailyCandle[]
+  fileName: string
+  importedAt: string
+}
+
+/** 자산별 일별 시세 */
+export type PriceHistory = Record<string, PriceSeries>
+
+/** 원화 기준 시세를 돌려준다. 시세가 없으면 null */
+export type MarketPriceLookup = (asset: string, date: string) => DailyCandle | null
+
+// 거래소 휴장이 없는 코인이라도 파일에 빠진 날이 있어 며칠 전까지는 직전 종가를 쓴다
+const MAX_STALE_DAYS = 7
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface PriceFileParseResult {
+  series: PriceSeries[]
+  skipped: number
+  error: string | null
+}
+
+const sortCandles = (candles: DailyCandle[]) => {
+  const byDate = new Map(candles.map((candle) => [candle.date, candle]))
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date))
+}
+
+const toCandle = (date: string | undefined, values: (number | undefined)[]): DailyCandle | null => {
+  const [open, high, low, close] = values.map((value) => value ?? NaN)
+  if (!date?.trim() || !Number.isFinite(close) || close <= 0) return null
+  // 종가만 있는 파일은 시가·고가·저가를 종가로 채운다
+  const fill = (value: number) => (Number.isFinite(value) && value > 0 ? value : close)
+  return { date: normalizeDate(date), open: fill(open), high: fill(high), low: fill(low), close }
+}
+
+// "BTC.csv", "btc-krw-daily.json" 같은 파일 이름에서 자산과 통화를 짐작한다
+const assetFromFileName = (fileName: string) => {
+  const [base, quote] = fileName.replace(/\.[^.]+$/, "").toUpperCase().split(/[-_ ]/)
+  return { asset: normalizeAsset(base), quoteCurrency: quote && /^[A-Z]{3,5}$/.test(quote) ? quote : "KRW" }
+}
+
+const groupSeries = (
+  rows: { asset: string; quoteCurrency: string; candle: DailyCandle }[],
+  fileName: string
+): PriceSeries[] => {
+  const groups = new Map<string, PriceSeries>()
+  const importedAt = new Date().toISOString()
+  for (const { asset, quoteCurrency, candle } of rows) {
+    const series = groups.get(asset)
+    if (series) series.candles.push(candle)
+    else groups.set(asset, { asset, quoteCurrency, candles: [candle], fileName, importedAt })
+  }
+  return [...groups.values()].map((series) => ({ ...series, candles: sortCandles(series.candles) }))
+}
+
+const parsePriceCsv = (text: string, fileName: string): PriceFileParseResult => {
+  const { header, rows } = readCsv(text)
+  const fallback = assetFromFileName(fileName)
+  const columns = {
+    date: findColumn(header, ["date", "time", "timestamp", "날짜", "일자"]),
+    asset: findColumn(header, ["asset", "symbol", "coin", "ticker", "자산", "코인"]),
+    quote: findColumn(header, ["quote", "currency", "quote_currency", "통화"]),
+    open: findColumn(header, ["open", "시가"]),
+    high: findColumn(header, ["high", "고가"]),
+    low: findColumn(header, ["low", "저가"]),
+    close: findColumn(header, ["close", "price", "종가"]),
+  }
+  if (columns.date < 0 || columns.close < 0) {
+    return { series: [], skipped: rows.length, error: "date와 close(종가) 열이 필요합니다." }
+  }
+
+  let skipped = 0
+  const parsed = rows.flatMap((cells) => {
+    const candle = toCandle(
+      getCell(cells, columns.date),
+      [columns.open, columns.high, columns.low, columns.close].map((index) =>
+        index >= 0 ? normalizeNumber(getCell(cells, index)) : undefined
+      )
+    )
+    const asset = normalizeAsset(getCell(cells, columns.asset)) || fallback.asset
+    if (!candle || !asset) {
+      skipped++
+      return []
+    }
+    const quoteCurrency =
+      (getCell(cells, columns.quote) ?? "").trim().toUpperCase() || fallback.quoteCurrency
+    return [{ asset, quoteCurrency, candle }]
+  })
+  return { series: groupSeries(parsed, fileName), skipped, error: null }
+}
+
+const readJsonNumber = (value: unknown) =>
+  typeof value === "number" ? value : typeof value === "string" ? normalizeNumber(value) : undefined
+
+/**
+ * JSON은 캔들 배열, { asset, quote, candles } 객체, 또는 그런 객체의 배열을 받는다.
+ */
+const parsePriceJson = (text: string, fileName: string): PriceFileParseResult => {
+  let document: unknown
+  try {
+    document = JSON.parse(text)
+  } catch {
+    return { series: [], skipped: 0, error: "JSON 형식이 아닙니다." }
+  }
+
+  const fallback = assetFromFileName(fileName)
+  const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === "object" && value !== null && !Array.isArray(value)
+  const blocks = Array.isArray(document) && document.every((item) => isRecord(item) && "candles" in item)
+    ? document
+    : [isRecord(document) && "candles" in document ? document : { candles: document }]
+
+  let skipped = 0
+  const parsed = blocks.flatMap((block) => {
+    const candles = isRecord(block) && Array.isArray(block.candles) ? block.candles : []
+    const blockAsset = isRecord(block) && typeof block.asset === "string" ? block.asset : ""
+    const blockQuote = isRecord(block) && typeof block.quote === "string" ? block.quote : ""
+
+    return candles.flatMap((item: unknown) => {
+      if (!isRecord(item)) {
+        skipped++
+        return []
+      }
+      const candle = toCandle(
+        typeof item.date === "string" ? item.date : undefined,
+        [item.open, item.high, item.low, item.close ?? item.price].map(readJsonNumber)
+      )
+      const asset =
+        normalizeAsset(typeof item.asset === "string" ? item.asset : blockAsset) || fallback.asset
+      if (!candle || !asset) {
+        skipped++
+        return []
+      }
+      return [{ asset, quoteCurrency: blockQuote.toUpperCase() || fallback.quoteCurrency, candle }]
+    })
+  })
+  return { series: groupSeries(parsed, fileName), skipped, error: null }
+}
+
+/** 확장자나 내용으로 CSV/JSON을 구분해 일별 시세를 읽는다. */
+export const parsePriceFile = (fileName: string, text: string): PriceFileParseResult => {
+  const trimmed = text.trimStart().replace(/^\uFEFF/, "")
+  const isJson = /\.json$/i.test(fileName) || trimmed.startsWith("[") || trimmed.startsWith("{")
+  const result = isJson ? parsePriceJson(trimmed, fileName) : parsePriceCsv(text, fileName)
+  if (!result.error && result.series.length === 0) {
+    return { ...result, error: "읽을 수 있는 시세가 없습니다. 자산 열이나 파일 이름(BTC.csv)을 확인해주세요." }
+  }
+  return result
+}
+
+/** 같은 날짜의 시세는 새로 올린 값으로 바꾼다. */
+export const mergePriceSeries = (current: PriceSeries | undefined, incoming: PriceSeries): PriceSeries =>
+  current && current.quoteCurrency === incoming.quoteCurrency
+    ? { ...incoming, candles: sortCandles([...current.candles, ...incoming.candles]) }
+    : incoming
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((Date.parse(to) - Date.parse(from)) / DAY_MS)
+
+const findCandle = (series: PriceSeries, date: string) => {
+  let low = 0
+  let high = series.candles.length - 1
+  let found: DailyCandle | null = null
+  while (low <= high) {
+    const mid = (low + high) >> 1
+    if (series.candles[mid].date <= date) {
+      found = series.candles[mid]
+      low = mid + 1
+    } else {
+      high = mid - 1
+    }
+  }
+  return found && daysBetween(found.date, date) <= MAX_STALE_DAYS ? found : null
+}
+
+/**
+ * 자산과 날짜로 원화 시세를 찾는 함수를 만든다. 시세 통화가 원화가 아니면 환율표로 환산한다.
+ */
+export const createMarketPriceLookup = (
+  history: PriceHistory,
+  rates: ExchangeRateTable
+): MarketPriceLookup => (asset, date) => {
+  const series = history[normalizeAsset(asset)]
+  const candle = series ? findCandle(series, date) : null
+  if (!series || !candle) return null
+  const { rate, source } = findKrwRate(rates, series.quoteCurrency, candle.date)
+  if (source === "missing") return null
+  return {
+    date: candle.date,
+    open: candle.open * rate,
+    high: candle.high * rate,
+    low: candle.low * rate,
+    close: candle.close * rate,
+  }
+}
+
+/** 자산의 가장 최근 종가를 원화로 돌려준다. 시세가 없거나 환율을 못 찾으면 null */
+export const findLatestKrwPrice = (history: PriceHistory, rates: ExchangeRateTable, asset: string) => {
+  const series = history[normalizeAsset(asset)]
+  const candle = series?.candles.at(-1)
+  if (!series || !candle) return null
+  const { rate, source } = findKrwRate(rates, series.quoteCurrency, candle.date)
+  return source === "missing" ? null : { date: candle.date, close: candle.close * rate }
+}
+
+export interface PriceDeviation {
+  /** 종가 대비 입력 단가의 차이 비율 */
+  ratio: number
+  market: DailyCandle
+}
+
+// 당일 고가·저가 범위를 이만큼 벗어나면 잘못 입력한 가격으로 본다
+export const PRICE_DEVIATION_TOLERANCE = 0.1
+
+/** 원화로 환산한 거래 단가가 당일 시세 범위를 크게 벗어난 거래를 찾는다. */
+export const findPriceDeviations = (trades: Trade[], lookup: MarketPriceLookup) => {
+  const deviations = new Map<string, PriceDeviation>()
+  for (const trade of trades) {
+    if (trade.price <= 0 || trade.amount <= 0) continue
+    const market = lookup(trade.asset, trade.date)
+    if (!market || market.date !== trade.date) continue
+    const outside =
+      trade.price < market.low * (1 - PRICE_DEVIATION_TOLERANCE) ||
+      trade.price > market.high * (1 + PRICE_DEVIATION_TOLERANCE)
+    if (outside) deviations.set(trade.id, { ratio: trade.price / market.close - 1, market })
+  }
+  return deviations
+}
+
+export interface YearEndValuation {
+  year: string
+  /** 시세를 찾은 자산의 연말 평가액 합계 */
+  marketValue: number
+  holdingCost: number
+  /** 연말에 보유했지만 시세가 없는 자산 */
+  unpricedAssets: string[]
+}
+
+/** 과세연도마다 연말 보유 수량을 12월 31일 시세로 평가한다. */
+export const valueHoldingsAtYearEnd = (
+  result: CostBasisResult,
+  lookup: MarketPriceLookup
+): YearEndValuation[] =>
+  result.years.map(({ year }) => {
+    const valuation: YearEndValuation = { year, marketValue: 0, holdingCost: 0, unpricedAssets: [] }
+    for (const asset of result.assets) {
+      const carried = asset.years.filter((item) => item.year <= year).at(-1)
+      if (!carried || carried.holdingAmount <= 0) continue
+      valuation.holdingCost += carried.holdingCost
+      const market = lookup(asset.asset, `${year}-12-31`)
+      if (market) valuation.marketValue += carried.holdingAmount * market.close
+      else valuation.unpricedAssets.push(asset.asset)
+    }
+    return valuation
+  })
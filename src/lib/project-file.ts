@@ -0,0 +1,444 @@
+import type { ExchangeRate } from "@/lib/exchange-rates"
+import {
+  DEFAULT_INCOME_TREATMENTS,
+  INCOME_CATEGORIES,
+  INCOME_TREATMENT_LABELS,
+  type IncomeTreatment,
+  type IncomeTreatments,
+} from "@/lib/income"
+import { COST_BASIS_METHODS, type CostBasisMethod, type LotSelections } from "@/lib/cost-basis"
+import type { OpeningBalance } from "@/lib/opening-balances"
+import type { DailyCandle, PriceHistory, PriceSeries } from "@/lib/price-history"
+import { CUSTOM_PROFILE_ID, TAX_RULE_PROFILES, type TaxRuleProfile } from "@/lib/tax-rules"
+import {
+  normalizeAsset,
+  TRADE_TYPE_LABELS,
+  type FeeCurrency,
+  type Trade,
+  type TradeType,
+} from "@/lib/trades"
+import type {
+  ImportHistoryEntry,
+  WorkspaceContent,
+  WorkspaceSettings,
+} from "@/lib/workspace"
+
+export const PROJECT_FILE_FORMAT = "coin-tax-project"
+
+/** 문서 구조를 바꾸면 올리고, 이전 버전을 올리는 마이그레이션을 MIGRATIONS에 추가한다. */
+export const PROJECT_FILE_VERSION = 7
+
+export interface ProjectFile extends WorkspaceContent {
+  format: typeof PROJECT_FILE_FORMAT
+  version: number
+  name: string
+  exportedAt: string
+  /** 이 프로젝트의 자산 시세. 브라우저에는 작업공간과 따로 저장되므로 파일에 함께 담는다. */
+  priceHistory: PriceSeries[]
+}
+
+export type ProjectFileParseResult =
+  | {
+      ok: true
+      name: string
+      content: WorkspaceContent
+      priceHistory: PriceSeries[]
+      migratedFrom: number | null
+    }
+  | { ok: false; reason: string }
+
+type JsonObject = Record<string, unknown>
+
+/** n 버전 문서를 n + 1 버전으로 바꾼다. */
+const MIGRATIONS: Record<number, (document: JsonObject) => JsonObject> = {
+  // v2: 거래에 결제 통화가 생겼다. v1 거래는 모두 원화 가격이었다.
+  1: (document) => ({
+    ...document,
+    version: 2,
+    trades: Array.isArray(document.trades)
+      ? document.trades.map((trade) => (isObject(trade) ? { ...trade, quoteCurrency: "KRW" } : trade))
+      : document.trades,
+    exchangeRates: [],
+  }),
+  // v3: 스왑 거래의 받은 자산·수량 필드가 생겼다
+  2: (document) => ({
+    ...document,
+    version: 3,
+    trades: Array.isArray(document.trades)
+      ? document.trades.map((trade) =>
+          isObject(trade)
+            ? { ...trade, acquiredAsset: "", acquiredAmount: 0, acquiredAmountInput: "" }
+            : trade
+        )
+      : document.trades,
+  }),
+  // v4: 이체 입금/출금을 서로 연결하는 필드가 생겼다
+  3: (document) => ({
+    ...document,
+    version: 4,
+    trades: Array.isArray(document.trades)
+      ? document.trades.map((trade) => (isObject(trade) ? { ...trade, transferLinkId: null } : trade))
+      : document.trades,
+  }),
+  // v5: 수령 소득 거래 구분과 범주별 과세 처리 설정이 생겼다
+  4: (document) => ({
+    ...document,
+    version: 5,
+    settings: isObject(document.settings)
+      ? { ...document.settings, incomeTreatments: { ...DEFAULT_INCOME_TREATMENTS } }
+      : document.settings,
+  }),
+  // v6: 거래와 기초 보유분에 거래소·지갑 계정이 생겼다
+  5: (document) => ({
+    ...document,
+    version: 6,
+    trades: Array.isArray(document.trades)
+      ? document.trades.map((trade) => (isObject(trade) ? { ...trade, account: "" } : trade))
+      : document.trades,
+    openingBalances: Array.isArray(document.openingBalances)
+      ? document.openingBalances.map((balance) =>
+          isObject(balance) ? { ...balance, account: "" } : balance
+        )
+      : document.openingBalances,
+  }),
+  // v7: 스왑·수령 소득 평가와 연말 평가에 쓴 일별 시세를 파일에 함께 담는다
+  6: (document) => ({
+    ...document,
+    version: 7,
+    priceHistory: [],
+  }),
+}
+
+class ProjectFileError extends Error {}
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+const fail = (path: string, message: string): never => {
+  throw new ProjectFileError(`${path}: ${message}`)
+}
+
+const readObject = (value: unknown, path: string) =>
+  isObject(value) ? value : fail(path, "객체가 아닙니다.")
+
+const readArray = (value: unknown, path: string) =>
+  Array.isArray(value) ? value : fail(path, "목록이 아닙니다.")
+
+const readString = (source: JsonObject, key: string, path: string, fallback?: string) => {
+  const value = source[key]
+  if (typeof value === "string") return value
+  if (value === undefined && fallback !== undefined) return fallback
+  return fail(`${path}.${key}`, "문자열이 아닙니다.")
+}
+
+const readNumber = (source: JsonObject, key: string, path: string, fallback?: number) => {
+  const value = source[key]
+  if (typeof value === "number" && Number.isFinite(value)) return value
+  if (value === undefined && fallback !== undefined) return fallback
+  return fail(`${path}.${key}`, "숫자가 아닙니다.")
+}
+
+const readDate = (source: JsonObject, key: string, path: string) => {
+  const value = readString(source, key, path)
+  return DATE_PATTERN.test(value) ? value : fail(`${path}.${key}`, "YYYY-MM-DD 날짜가 아닙니다.")
+}
+
+const readOneOf = <T extends string>(
+  source: JsonObject,
+  key: string,
+  path: string,
+  allowed: readonly T[],
+  fallback?: T
+): T => {
+  const value = readString(source, key, path, fallback)
+  return (allowed as readonly string[]).includes(value)
+    ? (value as T)
+    : fail(`${path}.${key}`, `알 수 없는 값 "${value}"`)
+}
+
+const readTrade = (value: unknown, path: string): Trade => {
+  const source = readObject(value, path)
+  const amount = readNumber(source, "amount", path)
+  const price = readNumber(source, "price", path)
+  const fee = readNumber(source, "fee", path, 0)
+  const acquiredAmount = readNumber(source, "acquiredAmount", path, 0)
+  const importFingerprint = source.importFingerprint
+  const transferLinkId = source.transferLinkId
+
+  return {
+    id: readString(source, "id", path, crypto.randomUUID()),
+    date: readDate(source, "date", path),
+    asset: readString(source, "asset", path, ""),
+    type: readOneOf(source, "type", path, Object.keys(TRADE_TYPE_LABELS) as TradeType[]),
+    account: readString(source, "account", path, ""),
+    amount,
+    price,
+    fee,
+    feeCurrency: readOneOf<FeeCurrency>(source, "feeCurrency", path, ["KRW", "asset"], "KRW"),
+    quoteCurrency: readString(source, "quoteCurrency", path, "KRW").toUpperCase() || "KRW",
+    acquiredAsset: readString(source, "acquiredAsset", path, ""),
+    acquiredAmount,
+    acquiredAmountInput: readString(
+      source,
+      "acquiredAmountInput",
+      path,
+      acquiredAmount ? String(acquiredAmount) : ""
+    ),
+    transferLinkId: typeof transferLinkId === "string" ? transferLinkId : null,
+    amountInput: readString(source, "amountInput", path, String(amount)),
+    priceInput: readString(source, "priceInput", path, String(price)),
+    feeInput: readString(source, "feeInput", path, fee ? String(fee) : ""),
+    importFingerprint: typeof importFingerprint === "string" ? importFingerprint : null,
+  }
+}
+
+const readOpeningBalance = (value: unknown, path: string): OpeningBalance => {
+  const source = readObject(value, path)
+  const amount = readNumber(source, "amount", path)
+  const actualUnitCost = source.actualUnitCost === null ? null : readNumber(source, "actualUnitCost", path)
+  const deemedUnitPrice = readNumber(source, "deemedUnitPrice", path)
+
+  return {
+    id: readString(source, "id", path, crypto.randomUUID()),
+    asset: readString(source, "asset", path),
+    date: readDate(source, "date", path),
+    account: readString(source, "account", path, ""),
+    amount,
+    actualUnitCost,
+    deemedUnitPrice,
+    amountInput: readString(source, "amountInput", path, String(amount)),
+    actualUnitCostInput: readString(
+      source,
+      "actualUnitCostInput",
+      path,
+      actualUnitCost === null ? "" : String(actualUnitCost)
+    ),
+    deemedUnitPriceInput: readString(source, "deemedUnitPriceInput", path, String(deemedUnitPrice)),
+  }
+}
+
+const readExchangeRate = (value: unknown, path: string): ExchangeRate => {
+  const source = readObject(value, path)
+  const rate = readNumber(source, "rate", path)
+  return {
+    currency: readString(source, "currency", path).toUpperCase(),
+    date: readDate(source, "date", path),
+    rate: rate > 0 ? rate : fail(`${path}.rate`, "0보다 커야 합니다."),
+  }
+}
+
+const readCandle = (value: unknown, path: string): DailyCandle => {
+  const source = readObject(value, path)
+  const close = readNumber(source, "close", path)
+  return {
+    date: readDate(source, "date", path),
+    open: readNumber(source, "open", path, close),
+    high: readNumber(source, "high", path, close),
+    low: readNumber(source, "low", path, close),
+    close: close > 0 ? close : fail(`${path}.close`, "0보다 커야 합니다."),
+  }
+}
+
+const readPriceSeries = (value: unknown, path: string): PriceSeries => {
+  const source = readObject(value, path)
+  return {
+    asset: normalizeAsset(readString(source, "asset", path)),
+    quoteCurrency: readString(source, "quoteCurrency", path, "KRW").toUpperCase() || "KRW",
+    candles: readArray(source.candles, `${path}.candles`)
+      .map((candle, index) => readCandle(candle, `${path}.candles[${index}]`))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    fileName: readString(source, "fileName", path, ""),
+    importedAt: readString(source, "importedAt", path, ""),
+  }
+}
+
+const readTaxProfile = (value: unknown, path: string): TaxRuleProfile => {
+  const source = readObject(value, path)
+  const lossNetting = readObject(source.lossNetting, `${path}.lossNetting`)
+  const effectiveTo = source.effectiveTo === null ? null : readDate(source, "effectiveTo", path)
+
+  return {
+    id: readString(source, "id", path),
+    name: readString(source, "name", path),
+    version: readString(source, "version", path, "1"),
+    deduction: readNumber(source, "deduction", path),
+    nationalRate: readNumber(source, "nationalRate", path),
+    localRate: readNumber(source, "localRate", path),
+    effectiveFrom: readDate(source, "effectiveFrom", path),
+    effectiveTo,
+    lossNetting: {
+      netAcrossAssets: lossNetting.netAcrossAssets !== false,
+      carryForwardYears: readNumber(lossNetting, "carryForwardYears", `${path}.lossNetting`, 0),
+    },
+  }
+}
+
+const readLotSelections = (value: unknown, path: string): LotSelections =>
+  Object.fromEntries(
+    Object.entries(readObject(value ?? {}, path)).map(([saleId, selections]) => [
+      saleId,
+      readArray(selections, `${path}.${saleId}`).map((selection, index) => {
+        const itemPath = `${path}.${saleId}[${index}]`
+        const source = readObject(selection, itemPath)
+        return {
+          lotId: readString(source, "lotId", itemPath),
+          amount: readNumber(source, "amount", itemPath),
+        }
+      }),
+    ])
+  )
+
+const readIncomeTreatments = (value: unknown, path: string): IncomeTreatments => {
+  const source = readObject(value ?? {}, path)
+  const treatments = Object.keys(INCOME_TREATMENT_LABELS) as IncomeTreatment[]
+  return Object.fromEntries(
+    INCOME_CATEGORIES.map((category) => [
+      category,
+      readOneOf(source, category, path, treatments, DEFAULT_INCOME_TREATMENTS[category]),
+    ])
+  ) as IncomeTreatments
+}
+
+const readSettings = (value: unknown, path: string): WorkspaceSettings => {
+  const source = readObject(value, path)
+  const profileIds = [CUSTOM_PROFILE_ID, ...TAX_RULE_PROFILES.map((profile) => profile.id)]
+
+  return {
+    costBasisMethod: readOneOf<CostBasisMethod>(
+      source,
+      "costBasisMethod",
+      path,
+      COST_BASIS_METHODS.map((method) => method.value)
+    ),
+    lotSelections: readLotSelections(source.lotSelections, `${path}.lotSelections`),
+    taxYear: typeof source.taxYear === "string" ? source.taxYear : null,
+    taxProfileId: readOneOf(source, "taxProfileId", path, profileIds),
+    customProfile: readTaxProfile(source.customProfile, `${path}.customProfile`),
+    incomeTreatments: readIncomeTreatments(source.incomeTreatments, `${path}.incomeTreatments`),
+  }
+}
+
+// 가져오기 기록은 참고용이라 형식이 맞지 않는 항목은 버린다
+const readImportHistory = (value: unknown): ImportHistoryEntry[] =>
+  (Array.isArray(value) ? value : []).flatMap((entry) => {
+    try {
+      const source = readObject(entry, "importHistory")
+      return [
+        {
+          id: readString(source, "id", "importHistory", crypto.randomUUID()),
+          fileName: readString(source, "fileName", "importHistory"),
+          formatLabel: readString(source, "formatLabel", "importHistory", ""),
+          importedAt: readString(source, "importedAt", "importHistory"),
+          added: readNumber(source, "added", "importHistory", 0),
+          duplicates: readNumber(source, "duplicates", "importHistory", 0),
+          rejected: readNumber(source, "rejected", "importHistory", 0),
+        },
+      ]
+    } catch {
+      return []
+    }
+  })
+
+const readContent = (source: JsonObject): WorkspaceContent => ({
+  trades: readArray(source.trades, "trades").map((trade, index) =>
+    readTrade(trade, `trades[${index}]`)
+  ),
+  openingBalances: readArray(source.openingBalances ?? [], "openingBalances").map(
+    (balance, index) => readOpeningBalance(balance, `openingBalances[${index}]`)
+  ),
+  exchangeRates: readArray(source.exchangeRates ?? [], "exchangeRates").map((rate, index) =>
+    readExchangeRate(rate, `exchangeRates[${index}]`)
+  ),
+  settings: readSettings(source.settings, "settings"),
+  importHistory: readImportHistory(source.importHistory),
+})
+
+/**
+ * 브라우저 저장소에서 읽은 작업공간처럼 버전 표시가 없는 데이터를 검사한다.
+ * 이전 앱 버전에서 저장해 빠진 필드는 기본값으로 채운다.
+ */
+export const readWorkspaceContent = (
+  value: unknown
+): { ok: true; content: WorkspaceContent } | { ok: false; reason: string } => {
+  try {
+    return { ok: true, content: readContent(readObject(value, "workspace")) }
+  } catch (error) {
+    if (error instanceof ProjectFileError) return { ok: false, reason: error.message }
+    throw error
+  }
+}
+
+/** 저장한 시세 중 작업공간의 거래·스왑·기초 보유분에 나오는 자산의 시세만 고른다. */
+export const projectPriceSeries = (content: WorkspaceContent, priceHistory: PriceHistory) => {
+  const assets = new Set(
+    [
+      ...content.trades.flatMap((trade) => [trade.asset, trade.acquiredAsset]),
+      ...content.openingBalances.map((balance) => balance.asset),
+    ].map(normalizeAsset)
+  )
+  return Object.values(priceHistory).filter((series) => assets.has(series.asset))
+}
+
+export const serializeProject = (
+  name: string,
+  content: WorkspaceContent,
+  priceHistory: PriceSeries[] = []
+) => {
+  const project: ProjectFile = {
+    format: PROJECT_FILE_FORMAT,
+    version: PROJECT_FILE_VERSION,
+    name,
+    exportedAt: new Date().toISOString(),
+    ...content,
+    priceHistory,
+  }
+  return JSON.stringify(project, null, 2)
+}
+
+/** 프로젝트 JSON을 검사하고, 이전 버전이면 현재 버전으로 올린 뒤 작업공간 내용으로 돌려준다. */
+export const parseProjectFile = (text: string): ProjectFileParseResult => {
+  let document: unknown
+  try {
+    document = JSON.parse(text)
+  } catch {
+    return { ok: false, reason: "JSON 형식이 아닙니다." }
+  }
+
+  try {
+    let source = readObject(document, "project")
+    if (source.format !== PROJECT_FILE_FORMAT) {
+      return { ok: false, reason: "coin-tax 프로젝트 파일이 아닙니다." }
+    }
+
+    const version = readNumber(source, "version", "project")
+    if (!Number.isInteger(version) || version < 1) {
+      return { ok: false, reason: `잘못된 버전 번호입니다: ${version}` }
+    }
+    if (version > PROJECT_FILE_VERSION) {
+      return {
+        ok: false,
+        reason: `더 새로운 버전(v${version})에서 저장한 파일입니다. 앱을 업데이트해주세요.`,
+      }
+    }
+    for (let current = version; current < PROJECT_FILE_VERSION; current += 1) {
+      const migrate = MIGRATIONS[current]
+      if (!migrate) return { ok: false, reason: `v${current} 파일을 변환할 수 없습니다.` }
+      source = migrate(source)
+    }
+
+    return {
+      ok: true,
+      name: readString(source, "name", "project", ""),
+      content: readContent(source),
+      priceHistory: readArray(source.priceHistory ?? [], "priceHistory").map((series, index) =>
+        readPriceSeries(series, `priceHistory[${index}]`)
+      ),
+      migratedFrom: version < PROJECT_FILE_VERSION ? version : null,
+    }
+  } catch (error) {
+    if (error instanceof ProjectFileError) return { ok: false, reason: error.message }
+    throw error
+  }
+}
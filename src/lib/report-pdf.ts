@@ -0,0 +1,213 @@
+import { A4_PAGE, buildImagePdf, type PdfImagePage } from "@/lib/pdf"
+import type { ReportBlock, ReportColumn } from "@/lib/report"
+
+// 1pt를 2px로 그려 인쇄해도 글자가 뭉개지지 않게 한다
+const SCALE = 2
+const MARGIN = 40
+const FOOTER_HEIGHT = 20
+const FONT_FAMILY =
+  '"Pretendard", "Apple SD Gothic Neo", "Malgun Gothic", "Noto Sans KR", sans-serif'
+const TEXT_COLOR = "#0f172a"
+const MUTED_COLOR = "#64748b"
+const LINE_COLOR = "#e2e8f0"
+const HEADER_FILL = "#f1f5f9"
+
+const toJpeg = (canvas: HTMLCanvasElement) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (!blob) {
+          reject(new Error("페이지 이미지를 만들지 못했습니다."))
+          return
+        }
+        blob.arrayBuffer().then((buffer) => resolve(new Uint8Array(buffer)), reject)
+      },
+      "image/jpeg",
+      0.92
+    )
+  })
+
+/**
+ * 보고서 블록을 A4 캔버스에 차례로 그리고 PDF로 묶는다.
+ * 페이지는 다 그리는 즉시 JPEG로 바꿔, 거래가 많아도 캔버스 한 장만 메모리에 둔다.
+ */
+export async function renderReportPdf(blocks: ReportBlock[]) {
+  const canvas = document.createElement("canvas")
+  canvas.width = Math.round(A4_PAGE.width * SCALE)
+  canvas.height = Math.round(A4_PAGE.height * SCALE)
+  const context = canvas.getContext("2d")
+  if (!context) throw new Error("캔버스를 사용할 수 없는 브라우저입니다.")
+  const ctx: CanvasRenderingContext2D = context
+
+  const contentWidth = A4_PAGE.width - MARGIN * 2
+  const bottom = A4_PAGE.height - MARGIN - FOOTER_HEIGHT
+  const pages: PdfImagePage[] = []
+  let y = MARGIN
+  let pageOpen = false
+
+  const setFont = (size: number, bold = false, color = TEXT_COLOR) => {
+    ctx.font = `${bold ? "700" : "400"} ${size}px ${FONT_FAMILY}`
+    ctx.fillStyle = color
+  }
+
+  const startPage = () => {
+    ctx.setTransform(1, 0, 0, 1, 0, 0)
+    ctx.fillStyle = "#ffffff"
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
+    ctx.setTransform(SCALE, 0, 0, SCALE, 0, 0)
+    ctx.textBaseline = "middle"
+    y = MARGIN
+    pageOpen = true
+  }
+
+  const finishPage = async () => {
+    if (!pageOpen) return
+    setFont(8, false, MUTED_COLOR)
+    ctx.textAlign = "center"
+    ctx.fillText(`${pages.length + 1}`, A4_PAGE.width / 2, A4_PAGE.height - MARGIN / 2)
+    ctx.textAlign = "left"
+    pages.push({ width: canvas.width, height: canvas.height, jpeg: await toJpeg(canvas) })
+    pageOpen = false
+  }
+
+  /** 남은 공간이 모자라면 새 페이지를 연다. 새 페이지를 열었으면 true */
+  const reserve = async (height: number) => {
+    if (!pageOpen) {
+      startPage()
+      return true
+    }
+    if (y + height <= bottom) return false
+    await finishPage()
+    startPage()
+    return true
+  }
+
+  const fitText = (text: string, width: number) => {
+    if (ctx.measureText(text).width <= width) return text
+    let fitted = text
+    while (fitted.length > 0 && ctx.measureText(`${fitted}…`).width > width) {
+      fitted = fitted.slice(0, -1)
+    }
+    return `${fitted}…`
+  }
+
+  // 한글은 띄어쓰기 없이도 줄을 바꿀 수 있어 글자 단위로 자른다
+  const wrapText = (text: string, width: number) => {
+    const lines: string[] = []
+    let line = ""
+    for (const char of text) {
+      if (line && ctx.measureText(line + char).width > width) {
+        lines.push(line)
+        line = char.trimStart()
+      } else {
+        line += char
+      }
+    }
+    if (line) lines.push(line)
+    return lines
+  }
+
+  const drawRow = (columns: ReportColumn[], cells: string[], rowHeight: number) => {
+    let x = MARGIN
+    columns.forEach((column, index) => {
+      const width = column.width * contentWidth
+      const text = fitText(cells[index] ?? "", width - 6)
+      ctx.textAlign = column.align === "right" ? "right" : "left"
+      ctx.fillText(text, column.align === "right" ? x + width - 3 : x + 3, y + rowHeight / 2)
+      x += width
+    })
+    ctx.textAlign = "left"
+  }
+
+  const drawLine = (at: number) => {
+    ctx.strokeStyle = LINE_COLOR
+    ctx.lineWidth = 0.5
+    ctx.beginPath()
+    ctx.moveTo(MARGIN, at)
+    ctx.lineTo(MARGIN + contentWidth, at)
+    ctx.stroke()
+  }
+
+  const drawTable = async (block: Extract<ReportBlock, { kind: "table" }>) => {
+    const rowHeight = 16
+    const drawHeader = () => {
+      ctx.fillStyle = HEADER_FILL
+      ctx.fillRect(MARGIN, y, contentWidth, rowHeight)
+      setFont(8.5, true, MUTED_COLOR)
+      drawRow(block.columns, block.columns.map((column) => column.label), rowHeight)
+      y += rowHeight
+    }
+
+    await reserve(rowHeight * 2)
+    drawHeader()
+    if (block.rows.length === 0) {
+      setFont(8.5, false, MUTED_COLOR)
+      ctx.fillText("내역이 없습니다.", MARGIN + 3, y + rowHeight / 2)
+      y += rowHeight
+    }
+    for (const row of block.rows) {
+      // 페이지가 넘어가면 머리글을 다시 그린다
+      if (await reserve(rowHeight)) drawHeader()
+      setFont(8.5)
+      drawRow(block.columns, row, rowHeight)
+      y += rowHeight
+      drawLine(y)
+    }
+    if (block.footer) {
+      if (await reserve(rowHeight)) drawHeader()
+      setFont(8.5, true)
+      drawRow(block.columns, block.footer, rowHeight)
+      y += rowHeight
+    }
+    y += 10
+  }
+
+  for (const block of blocks) {
+    switch (block.kind) {
+      case "title":
+        await reserve(36)
+        setFont(18, true)
+        ctx.fillText(fitText(block.text, contentWidth), MARGIN, y + 12)
+        y += 36
+        break
+      case "heading":
+        await reserve(48)
+        y += 8
+        setFont(13, true)
+        ctx.fillText(block.text, MARGIN, y + 10)
+        y += 26
+        break
+      case "text": {
+        setFont(9.5, false, MUTED_COLOR)
+        for (const line of wrapText(block.text, contentWidth)) {
+          await reserve(15)
+          setFont(9.5, false, MUTED_COLOR)
+          ctx.fillText(line, MARGIN, y + 7)
+          y += 15
+        }
+        y += 6
+        break
+      }
+      case "keyValues":
+        for (const [label, value] of block.items) {
+          await reserve(17)
+          setFont(10, false, MUTED_COLOR)
+          ctx.fillText(label, MARGIN, y + 8)
+          setFont(10, true)
+          ctx.fillText(fitText(value, contentWidth - 140), MARGIN + 140, y + 8)
+          y += 17
+        }
+        y += 8
+        break
+      case "table":
+        await drawTable(block)
+        break
+      case "pageBreak":
+        await finishPage()
+        break
+    }
+  }
+  await finishPage()
+
+  return buildImagePdf(pages)
+}
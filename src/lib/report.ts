@@ -0,0 +1,227 @@
+import { assetActivityForYear, COST_BASIS_METHODS, type CostBasisResult } from "@/lib/cost-basis"
+import { formatCurrency } from "@/lib/format"
+import {
+  INCOME_CATEGORIES,
+  INCOME_TREATMENT_LABELS,
+  sumIncomeYears,
+  type IncomeTreatments,
+  type IncomeYear,
+} from "@/lib/income"
+import { buildLedger, ledgerTypeLabel } from "@/lib/ledger"
+import type { OpeningBalance } from "@/lib/opening-balances"
+import type { MarketPriceLookup } from "@/lib/price-history"
+import { computeLossCarryForwards, sumTaxReports, type TaxYearReport } from "@/lib/tax"
+import { formatRate, totalTaxRate, type TaxRuleProfile } from "@/lib/tax-rules"
+import { taxYearOf, TRADE_TYPE_LABELS, UNKNOWN_ASSET_LABEL, type Trade } from "@/lib/trades"
+
+export interface ReportColumn {
+  label: string
+  /** 표 너비 대비 비율 */
+  width: number
+  align?: "left" | "right"
+}
+
+/** 출력 형식과 무관한 보고서 구성 요소 */
+export type ReportBlock =
+  | { kind: "title"; text: string }
+  | { kind: "heading"; text: string }
+  | { kind: "text"; text: string }
+  | { kind: "keyValues"; items: [string, string][] }
+  | { kind: "table"; columns: ReportColumn[]; rows: string[][]; footer?: string[] }
+  | { kind: "pageBreak" }
+
+export interface TaxReportInput {
+  workspaceName: string
+  /** null이면 전체 기간 */
+  year: string | null
+  trades: Trade[]
+  openingBalances: OpeningBalance[]
+  result: CostBasisResult & { reports: TaxYearReport[] }
+  profile: TaxRuleProfile
+  marketPrice?: MarketPriceLookup
+  income?: { years: IncomeYear[]; treatments: IncomeTreatments }
+}
+
+const won = (value: number) => `${formatCurrency(value)} 원`
+const quantity = (value: number) => value.toLocaleString("ko-KR", { maximumFractionDigits: 8 })
+
+/** 선택한 과세연도의 신고용 보고서를 구성한다. */
+export const buildTaxReport = ({
+  workspaceName,
+  year,
+  trades,
+  openingBalances,
+  result,
+  profile,
+  marketPrice,
+  income,
+}: TaxReportInput): ReportBlock[] => {
+  const reports = year === null ? result.reports : result.reports.filter((report) => report.year === year)
+  const summary = sumTaxReports(reports)
+  const exemptYears = reports.filter((report) => !report.inEffect).map((report) => report.year)
+  const assets = result.assets.map((asset) => assetActivityForYear(asset, year))
+  const ledger = buildLedger(trades, result, openingBalances, marketPrice).filter(
+    (row) => year === null || taxYearOf(row.date) === year
+  )
+  const methodLabel =
+    COST_BASIS_METHODS.find((method) => method.value === result.method)?.label ?? result.method
+  const periodLabel = year === null ? "전체 기간" : `${year}년 귀속`
+  const incomeSummary = sumIncomeYears(
+    (income?.years ?? []).filter((item) => year === null || item.year === year)
+  )
+  const incomeCategories = INCOME_CATEGORIES.filter(
+    (category) => incomeSummary.categories[category] > 0
+  )
+  const carryForwards = computeLossCarryForwards(result, profile, income?.years).filter(
+    (carry) => year === null || carry.year <= year
+  )
+
+  return [
+    { kind: "title", text: `가상자산 소득 계산 보고서 (${periodLabel})` },
+    {
+      kind: "keyValues",
+      items: [
+        ["작업공간", workspaceName],
+        ["작성일", new Date().toLocaleDateString("ko-KR")],
+        ["취득가액 산정", methodLabel],
+        ["세법 규칙", `${profile.name} (v${profile.version})`],
+        [
+          "기본공제 · 세율",
+          `${won(profile.deduction)} · ${formatRate(totalTaxRate(profile))} (지방세 ${formatRate(profile.localRate)} 포함)`,
+        ],
+      ],
+    },
+    { kind: "heading", text: "요약" },
+    {
+      kind: "keyValues",
+      items: [
+        ["총 매수", won(summary.totalBuy)],
+        ["총 매도", won(summary.totalSell)],
+        ["총 수수료", won(summary.totalFee)],
+        ["실현 손익", won(summary.realizedGain)],
+        ["수령 소득 (과세 합산)", won(summary.income)],
+        ["이월결손금 공제", won(summary.carriedLossUsed)],
+        ["기본공제", won(summary.deduction)],
+        ["과세표준", won(summary.taxable)],
+        ["소득세", won(summary.nationalTax)],
+        ["지방소득세", won(summary.localTax)],
+        ["예상 세액", won(summary.tax)],
+        ["연말 보유 원가", won(summary.holdingCost)],
+      ],
+    },
+    ...(exemptYears.length > 0
+      ? [
+          {
+            kind: "text" as const,
+            text: `${exemptYears.join(", ")}년은 선택한 규칙의 시행 기간 밖이라 비과세로 계산했습니다.`,
+          },
+        ]
+      : []),
+    { kind: "heading", text: "자산별 내역" },
+    {
+      kind: "table",
+      columns: [
+        { label: "자산", width: 0.12 },
+        { label: "총 매수", width: 0.16, align: "right" },
+        { label: "총 매도", width: 0.16, align: "right" },
+        { label: "수수료", width: 0.12, align: "right" },
+        { label: "실현 손익", width: 0.16, align: "right" },
+        { label: "보유 수량", width: 0.12, align: "right" },
+        { label: "보유 원가", width: 0.16, align: "right" },
+      ],
+      rows: assets.map((asset) => [
+        asset.asset || UNKNOWN_ASSET_LABEL,
+        won(asset.totalBuy),
+        won(asset.totalSell),
+        won(asset.totalFee),
+        won(asset.realizedGain),
+        quantity(asset.holdingAmount),
+        won(asset.holdingCost),
+      ]),
+      footer: [
+        "합계",
+        won(summary.totalBuy),
+        won(summary.totalSell),
+        won(summary.totalFee),
+        won(summary.realizedGain),
+        "-",
+        won(summary.holdingCost),
+      ],
+    },
+    ...(income && incomeCategories.length > 0
+      ? [
+          { kind: "heading" as const, text: "수령 소득" },
+          {
+            kind: "table" as const,
+            columns: [
+              { label: "구분", width: 0.25 },
+              { label: "수령 시가", width: 0.3, align: "right" as const },
+              { label: "과세 처리", width: 0.45 },
+            ],
+            rows: incomeCategories.map((category) => [
+              TRADE_TYPE_LABELS[category],
+              won(incomeSummary.categories[category]),
+              INCOME_TREATMENT_LABELS[income.treatments[category]],
+            ]),
+          },
+        ]
+      : []),
+    ...(carryForwards.length > 0
+      ? [
+          { kind: "heading" as const, text: "결손금 이월 공제" },
+          {
+            kind: "table" as const,
+            columns: [
+              { label: "발생 연도", width: 0.12 },
+              { label: "결손금", width: 0.16, align: "right" as const },
+              { label: "공제 내역", width: 0.32 },
+              { label: "소멸", width: 0.12, align: "right" as const },
+              { label: "잔액", width: 0.14, align: "right" as const },
+              { label: "공제 기한", width: 0.14 },
+            ],
+            rows: carryForwards.map((carry) => [
+              carry.year,
+              won(carry.loss),
+              carry.applied.map((item) => `${item.year}년 ${won(item.amount)}`).join(", ") || "-",
+              won(carry.expired),
+              won(carry.remaining),
+              `${carry.expiresAfter}년`,
+            ]),
+          },
+        ]
+      : []),
+    {
+      kind: "text",
+      text: "이 보고서는 입력한 거래를 바탕으로 한 추정치입니다. 실제 신고 전에 세무 전문가의 검토를 받으세요.",
+    },
+    { kind: "pageBreak" },
+    { kind: "heading", text: `부록: 거래 내역 (${ledger.length}건)` },
+    {
+      kind: "table",
+      columns: [
+        { label: "날짜", width: 0.1 },
+        { label: "자산", width: 0.07 },
+        { label: "구분", width: 0.08 },
+        { label: "수량", width: 0.1, align: "right" },
+        { label: "단가", width: 0.11, align: "right" },
+        { label: "거래금액", width: 0.12, align: "right" },
+        { label: "수수료", width: 0.09, align: "right" },
+        { label: "취득가액", width: 0.12, align: "right" },
+        { label: "실현 손익", width: 0.11, align: "right" },
+        { label: "보유 수량", width: 0.1, align: "right" },
+      ],
+      rows: ledger.map((row) => [
+        row.date,
+        row.asset || UNKNOWN_ASSET_LABEL,
+        ledgerTypeLabel(row),
+        quantity(row.amount),
+        formatCurrency(row.price),
+        formatCurrency(row.total),
+        formatCurrency(row.fee),
+        row.costBasis === null ? "" : formatCurrency(row.costBasis),
+        row.gain === null ? "" : formatCurrency(row.gain),
+        quantity(row.holdingAmount),
+      ]),
+    },
+  ]
+}
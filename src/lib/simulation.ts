@@ -0,0 +1,158 @@
+import {
+  computeRealizedGains,
+  type CostBasisOptions,
+  type CostBasisResult,
+  type Lot,
+  type LotSelection,
+  type LotSelections,
+} from "@/lib/cost-basis"
+import type { IncomeYear } from "@/lib/income"
+import {
+  availableCarriedLoss,
+  computeTaxReports,
+  type LossCarryForward,
+  type TaxYearReport,
+} from "@/lib/tax"
+import { isYearInEffect, type TaxRuleProfile } from "@/lib/tax-rules"
+import { createEmptyTrade, taxYearOf, type Trade } from "@/lib/trades"
+
+const EPSILON = 1e-9
+
+/** 가정한 매도 한 건. 가격은 원화 기준이다. */
+export interface SaleScenario {
+  asset: string
+  amount: number
+  price: number
+  /** 개별 지정법에서 이 매도에 대응할 로트 */
+  lots?: LotSelection[]
+}
+
+export interface SimulationInput {
+  /** 손익 엔진에 넘기는 것과 같은 원화 환산 거래 */
+  trades: Trade[]
+  options: CostBasisOptions
+  profile: TaxRuleProfile
+  incomeYears: IncomeYear[]
+  /** 지금 거래 그대로 계산한 과세연도별 결과 */
+  baselineReports: TaxYearReport[]
+  /** 지금 거래 그대로 계산한 결손금 이월 명세 */
+  carryForwards: LossCarryForward[]
+  /** 가정한 매도일. 이 날짜가 속한 과세연도의 세액 차이를 본다. */
+  date: string
+}
+
+export interface SaleSimulation {
+  year: string
+  inEffect: boolean
+  /** 가정한 매도로 늘어나는 실현 손익 */
+  extraGain: number
+  extraTax: number
+  /** 가정한 매도까지 반영한 그해 결과 */
+  report: TaxYearReport | null
+}
+
+const toSaleTrade = (scenario: SaleScenario, date: string, index: number): Trade => ({
+  ...createEmptyTrade(),
+  id: `simulated-sale-${index}`,
+  date,
+  asset: scenario.asset,
+  type: "sell",
+  amount: scenario.amount,
+  price: scenario.price,
+})
+
+/**
+ * 가정한 매도를 거래 목록 끝에 붙여 손익 엔진을 다시 돌리고, 그해 세액이 얼마나 늘어나는지 구한다.
+ * 로트 대응과 손익 통산은 실제 계산과 똑같이 적용된다.
+ */
+export const simulateSales = (input: SimulationInput, scenarios: SaleScenario[]): SaleSimulation => {
+  const year = taxYearOf(input.date)
+  const inEffect = isYearInEffect(input.profile, year)
+  const baseline = input.baselineReports.find((report) => report.year === year)
+  const valid = scenarios.filter((scenario) => scenario.amount > 0 && scenario.price > 0)
+  const sales = valid.map((scenario, index) => toSaleTrade(scenario, input.date, index))
+  if (sales.length === 0) {
+    return { year, inEffect, extraGain: 0, extraTax: 0, report: baseline ?? null }
+  }
+
+  const lotSelections: LotSelections = { ...input.options.lotSelections }
+  sales.forEach((sale, index) => {
+    const lots = valid[index].lots
+    if (lots) lotSelections[sale.id] = lots
+  })
+  const result = computeRealizedGains([...input.trades, ...sales], {
+    ...input.options,
+    lotSelections,
+  })
+  const report =
+    computeTaxReports(result, input.profile, input.incomeYears).find((item) => item.year === year) ??
+    null
+
+  return {
+    year,
+    inEffect,
+    extraGain: (report?.realizedGain ?? 0) - (baseline?.realizedGain ?? 0),
+    extraTax: (report?.tax ?? 0) - (baseline?.tax ?? 0),
+    report,
+  }
+}
+
+// 매도할 때 로트를 소진하는 순서. 개별 지정은 지정이 없으면 선입선출로 채운다.
+export const lotsInSaleOrder = (lots: Lot[], method: CostBasisResult["method"]) =>
+  method === "lifo" ? [...lots].reverse() : lots
+
+/**
+ * 그해 남은 기본공제 안에서 팔 수 있는 수량. 로트를 매도 순서대로 소진하며
+ * 손실 로트는 여유를 늘리고 이익 로트는 여유를 줄인다. 수수료는 고려하지 않는다.
+ * 자산 간 통산을 하지 않는 규칙이면 손실은 그해 이 자산의 이익만 상쇄한다.
+ */
+export const sellableWithinDeduction = (
+  result: CostBasisResult,
+  asset: string,
+  price: number,
+  remainingDeduction: number,
+  { netAcrossAssets, year }: { netAcrossAssets: boolean; year: string }
+) => {
+  const assetResult = result.assets.find((item) => item.asset === asset)
+  let assetGain = assetResult?.years.find((activity) => activity.year === year)?.realizedGain ?? 0
+  let room = remainingDeduction
+  let sellable = 0
+
+  // 실현 손익이 gain만큼 늘 때 과세 대상 소득의 변화만큼 여유를 줄인다
+  const realize = (gain: number) => {
+    room -= netAcrossAssets ? gain : Math.max(0, assetGain + gain) - Math.max(0, assetGain)
+    assetGain += gain
+  }
+
+  for (const lot of lotsInSaleOrder(assetResult?.lots ?? [], result.method)) {
+    const gainPerUnit = price - lot.unitCost
+    if (gainPerUnit <= 0) {
+      sellable += lot.amount
+      realize(gainPerUnit * lot.amount)
+      continue
+    }
+    // 통산하지 않으면 이 자산의 그해 손실이 새 이익을 먼저 흡수한다
+    const capacity = Math.max(0, room) + (netAcrossAssets ? 0 : Math.max(0, -assetGain))
+    const taken = Math.min(lot.amount, capacity / gainPerUnit)
+    sellable += taken
+    realize(taken * gainPerUnit)
+    if (taken < lot.amount - EPSILON) break
+  }
+
+  return sellable
+}
+
+/**
+ * 그해 실제 거래로 이미 쓴 만큼을 뺀 기본공제. 아직 남은 이월결손금만큼 더 실현할 수 있다.
+ * 시행 기간 밖이면 한도가 없다.
+ */
+export const remainingDeduction = (input: SimulationInput, year: string) => {
+  if (!isYearInEffect(input.profile, year)) return Infinity
+  const baseline = input.baselineReports.find((report) => report.year === year)
+  return Math.max(
+    0,
+    input.profile.deduction -
+      (baseline?.taxableGain ?? 0) +
+      availableCarriedLoss(input.carryForwards, year)
+  )
+}
@@ -0,0 +1,209 @@
+export type SheetCell = string | number | null
+
+export interface Sheet {
+  name: string
+  rows: SheetCell[][]
+}
+
+// 스프레드시트가 수식으로 읽는 첫 글자. 숫자 셀은 음수여도 그대로 둔다.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+const csvCell = (value: SheetCell) => {
+  if (value === null) return ""
+  const text = typeof value === "string" && FORMULA_PREFIX.test(value) ? `'${value}` : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/** 엑셀에서 한글이 깨지지 않도록 BOM을 붙인 CSV 문자열 */
+export const sheetToCsv = (sheet: Sheet) =>
+  "\uFEFF" + sheet.rows.map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n"
+
+// ---- XLSX (Office Open XML) ----
+// 외부 라이브러리 없이 압축하지 않은(stored) ZIP에 최소한의 워크북 XML만 담는다.
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // XML 1.0에서 허용하지 않는 제어 문자
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "")
+
+const columnName = (index: number) => {
+  let name = ""
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+// 첫 행은 머리글로 굵게(s="1") 표시한다
+const worksheetXml = (sheet: Sheet) => {
+  const rows = sheet.rows
+    .map((row, rowIndex) => {
+      const style = rowIndex === 0 ? ' s="1"' : ""
+      const cells = row
+        .map((value, columnIndex) => {
+          if (value === null || value === "") return ""
+          const ref = `${columnName(columnIndex)}${rowIndex + 1}`
+          if (typeof value === "number") {
+            return Number.isFinite(value) ? `<c r="${ref}"${style}><v>${value}</v></c>` : ""
+          }
+          return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`
+        })
+        .join("")
+      return `<row r="${rowIndex + 1}">${cells}</row>`
+    })
+    .join("")
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<sheetData>${rows}</sheetData></worksheet>`
+  )
+}
+
+const STYLES_XML =
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+  "</styleSheet>"
+
+// 시트 이름은 31자까지, 일부 특수문자는 쓸 수 없다
+const sheetName = (name: string, index: number) =>
+  name.replace(/[\\/?*[\]:]/g, " ").slice(0, 31).trim() || `Sheet${index + 1}`
+
+const workbookFiles = (sheets: Sheet[]): [string, string][] => [
+  [
+    "[Content_Types].xml",
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+      sheets
+        .map(
+          (_, index) =>
+            `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+        )
+        .join("") +
+      "</Types>",
+  ],
+  [
+    "_rels/.rels",
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+      "</Relationships>",
+  ],
+  [
+    "xl/workbook.xml",
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+      sheets
+        .map(
+          (sheet, index) =>
+            `<sheet name="${escapeXml(sheetName(sheet.name, index))}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`
+        )
+        .join("") +
+      "</sheets></workbook>",
+  ],
+  [
+    "xl/_rels/workbook.xml.rels",
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+      '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      sheets
+        .map(
+          (_, index) =>
+            `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+        )
+        .join("") +
+      `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+      "</Relationships>",
+  ],
+  ["xl/styles.xml", STYLES_XML],
+  ...sheets.map(
+    (sheet, index): [string, string] => [`xl/worksheets/sheet${index + 1}.xml`, worksheetXml(sheet)]
+  ),
+]
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+const zipStored = (files: [string, string][]) => {
+  const encoder = new TextEncoder()
+  const chunks: Uint8Array[] = []
+  const central: Uint8Array[] = []
+  let offset = 0
+
+  for (const [path, text] of files) {
+    const name = encoder.encode(path)
+    const data = encoder.encode(text)
+    const crc = crc32(data)
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(4, 20, true)
+    local.setUint16(6, 0x0800, true) // 파일 이름 UTF-8
+    local.setUint16(12, 0x0021, true) // 1980-01-01
+    local.setUint32(14, crc, true)
+    local.setUint32(18, data.length, true)
+    local.setUint32(22, data.length, true)
+    local.setUint16(26, name.length, true)
+
+    const entry = new DataView(new ArrayBuffer(46))
+    entry.setUint32(0, 0x02014b50, true)
+    entry.setUint16(4, 20, true)
+    entry.setUint16(6, 20, true)
+    entry.setUint16(8, 0x0800, true)
+    entry.setUint16(14, 0x0021, true)
+    entry.setUint32(16, crc, true)
+    entry.setUint32(20, data.length, true)
+    entry.setUint32(24, data.length, true)
+    entry.setUint16(28, name.length, true)
+    entry.setUint32(42, offset, true)
+
+    chunks.push(new Uint8Array(local.buffer), name, data)
+    central.push(new Uint8Array(entry.buffer), name)
+    offset += 30 + name.length + data.length
+  }
+
+  const centralSize = central.reduce((acc, chunk) => acc + chunk.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, files.length, true)
+  end.setUint16(10, files.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  const parts = [...chunks, ...central, new Uint8Array(end.buffer)]
+  const output = new Uint8Array(parts.reduce((acc, part) => acc + part.length, 0))
+  let position = 0
+  for (const part of parts) {
+    output.set(part, position)
+    position += part.length
+  }
+  return output
+}
+
+export const XLSX_MIME_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+
+/** 시트 목록을 .xlsx 파일 바이트로 만든다. */
+export const sheetsToXlsx = (sheets: Sheet[]) => zipStored(workbookFiles(sheets))
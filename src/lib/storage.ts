@@ -0,0 +1,95 @@
+import type { PriceSeries } from "@/lib/price-history"
+import type { WorkspaceData, WorkspaceSummary } from "@/lib/workspace"
+
+// 브라우저 IndexedDB에만 저장한다. 서버로는 아무것도 보내지 않는다.
+const DB_NAME = "coin-tax"
+const DB_VERSION = 2
+const WORKSPACE_STORE = "workspaces"
+const META_STORE = "meta"
+// v2: 작업공간과 별도로 공유하는 일별 시세
+const PRICE_STORE = "prices"
+const ACTIVE_WORKSPACE_KEY = "activeWorkspaceId"
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+const openDatabase = () =>
+  new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB를 사용할 수 없는 환경입니다."))
+      return
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(WORKSPACE_STORE)) {
+        db.createObjectStore(WORKSPACE_STORE, { keyPath: "id" })
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE)
+      }
+      if (!db.objectStoreNames.contains(PRICE_STORE)) {
+        db.createObjectStore(PRICE_STORE, { keyPath: "asset" })
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const getDatabase = () => {
+  databasePromise ??= openDatabase().catch((error) => {
+    databasePromise = null
+    throw error
+  })
+  return databasePromise
+}
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operate: (store: IDBObjectStore) => IDBRequest<T>
+) => {
+  const db = await getDatabase()
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode)
+    const request = operate(transaction.objectStore(storeName))
+    transaction.oncomplete = () => resolve(request.result)
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+export const listWorkspaces = async (): Promise<WorkspaceSummary[]> => {
+  const workspaces = await runRequest<WorkspaceData[]>(WORKSPACE_STORE, "readonly", (store) =>
+    store.getAll()
+  )
+  return workspaces
+    .map(({ id, name, updatedAt }) => ({ id, name, updatedAt }))
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export const loadWorkspace = (id: string) =>
+  runRequest<WorkspaceData | undefined>(WORKSPACE_STORE, "readonly", (store) => store.get(id))
+
+export const saveWorkspace = (workspace: WorkspaceData) =>
+  runRequest(WORKSPACE_STORE, "readwrite", (store) => store.put(workspace))
+
+export const deleteWorkspace = (id: string) =>
+  runRequest(WORKSPACE_STORE, "readwrite", (store) => store.delete(id))
+
+export const loadActiveWorkspaceId = () =>
+  runRequest<string | undefined>(META_STORE, "readonly", (store) =>
+    store.get(ACTIVE_WORKSPACE_KEY)
+  )
+
+export const saveActiveWorkspaceId = (id: string) =>
+  runRequest(META_STORE, "readwrite", (store) => store.put(id, ACTIVE_WORKSPACE_KEY))
+
+export const listPriceSeries = () =>
+  runRequest<PriceSeries[]>(PRICE_STORE, "readonly", (store) => store.getAll())
+
+export const savePriceSeries = (series: PriceSeries) =>
+  runRequest(PRICE_STORE, "readwrite", (store) => store.put(series))
+
+export const deletePriceSeries = (asset: string) =>
+  runRequest(PRICE_STORE, "readwrite", (store) => store.delete(asset))
@@ -0,0 +1,77 @@
+import type { MarketPriceLookup } from "@/lib/price-history"
+import type { Trade } from "@/lib/trades"
+
+export type SwapValuationSource = "entered" | "disposedMarket" | "acquiredMarket" | "missing"
+
+/** 스왑의 원화 가치. 처분 대가이자 새 로트의 취득가액이 된다. */
+export interface SwapValuation {
+  value: number
+  source: SwapValuationSource
+}
+
+export const SWAP_VALUATION_LABELS: Record<SwapValuationSource, string> = {
+  entered: "입력 단가",
+  disposedMarket: "보낸 자산 시세",
+  acquiredMarket: "받은 자산 시세",
+  missing: "시세 없음",
+}
+
+export type SwapSide = "disposed" | "acquired"
+
+export interface SwapLeg {
+  swapId: string
+  side: SwapSide
+}
+
+/** 스왑으로 생긴 취득 로트의 id */
+export const swapAcquiredLegId = (swapId: string) => `${swapId}:acquired`
+
+/**
+ * 입력한 단가(원화 환산 후)가 있으면 그 값으로, 없으면 보낸 자산이나 받은 자산의 당일 종가로 평가한다.
+ */
+export const valueSwap = (trade: Trade, marketPrice?: MarketPriceLookup): SwapValuation => {
+  if (trade.price > 0) return { value: trade.amount * trade.price, source: "entered" }
+  const disposed = marketPrice?.(trade.asset, trade.date)
+  if (disposed) return { value: trade.amount * disposed.close, source: "disposedMarket" }
+  const acquired = trade.acquiredAsset ? marketPrice?.(trade.acquiredAsset, trade.date) : null
+  if (acquired) return { value: trade.acquiredAmount * acquired.close, source: "acquiredMarket" }
+  return { value: 0, source: "missing" }
+}
+
+/**
+ * 스왑을 처분(매도)과 취득(매수) 두 거래로 나눠 자산별 손익 엔진이 그대로 계산하게 한다.
+ * 처분 쪽은 스왑 id를 그대로 써서 로트 지정과 매도 내역이 스왑에 연결된다.
+ */
+export const expandSwaps = (trades: Trade[], marketPrice?: MarketPriceLookup) => {
+  const legs = new Map<string, SwapLeg>()
+  const valuations = new Map<string, SwapValuation>()
+
+  const expanded = trades.flatMap((trade): Trade[] => {
+    if (trade.type !== "swap") return [trade]
+    const valuation = valueSwap(trade, marketPrice)
+    const acquiredId = swapAcquiredLegId(trade.id)
+    valuations.set(trade.id, valuation)
+    legs.set(trade.id, { swapId: trade.id, side: "disposed" })
+    legs.set(acquiredId, { swapId: trade.id, side: "acquired" })
+
+    return [
+      {
+        ...trade,
+        type: "sell",
+        price: trade.amount > 0 ? valuation.value / trade.amount : 0,
+      },
+      {
+        ...trade,
+        id: acquiredId,
+        type: "buy",
+        asset: trade.acquiredAsset,
+        amount: trade.acquiredAmount,
+        price: trade.acquiredAmount > 0 ? valuation.value / trade.acquiredAmount : 0,
+        fee: 0,
+        feeCurrency: "KRW",
+      },
+    ]
+  })
+
+  return { trades: expanded, legs, valuations }
+}
@@ -0,0 +1,83 @@
+export interface LossNettingRules {
+  /** 같은 과세연도 안에서 자산 간 손익을 통산할지 여부. false면 이익이 난 자산만 합산한다. */
+  netAcrossAssets: boolean
+  /** 연간 손실(결손금)을 이후 몇 개 과세연도까지 이월해 공제할지. 0이면 이월하지 않는다. */
+  carryForwardYears: number
+}
+
+export interface TaxRuleProfile {
+  id: string
+  name: string
+  version: string
+  deduction: number
+  /** 소득세율 (국세) */
+  nationalRate: number
+  /** 지방소득세율 */
+  localRate: number
+  /** YYYY-MM-DD. 이 날짜가 속한 과세연도부터 과세한다. */
+  effectiveFrom: string
+  /** YYYY-MM-DD 또는 null(종료일 없음) */
+  effectiveTo: string | null
+  lossNetting: LossNettingRules
+}
+
+export const CUSTOM_PROFILE_ID = "custom"
+
+export const TAX_RULE_PROFILES: TaxRuleProfile[] = [
+  {
+    id: "kr-2027-draft",
+    name: "KR 2027 시행안",
+    version: "2024.12",
+    deduction: 2_500_000,
+    nationalRate: 0.2,
+    localRate: 0.02,
+    effectiveFrom: "2027-01-01",
+    effectiveTo: null,
+    lossNetting: { netAcrossAssets: true, carryForwardYears: 0 },
+  },
+  {
+    id: "kr-2025-deferred",
+    name: "KR 2025 원안 (유예)",
+    version: "2022.12",
+    deduction: 2_500_000,
+    nationalRate: 0.2,
+    localRate: 0.02,
+    effectiveFrom: "2025-01-01",
+    effectiveTo: "2026-12-31",
+    lossNetting: { netAcrossAssets: true, carryForwardYears: 0 },
+  },
+  {
+    id: "simple-always",
+    name: "단순 모델 (연도 무관)",
+    version: "1",
+    deduction: 2_500_000,
+    nationalRate: 0.2,
+    localRate: 0.02,
+    effectiveFrom: "1900-01-01",
+    effectiveTo: null,
+    lossNetting: { netAcrossAssets: true, carryForwardYears: 0 },
+  },
+]
+
+export const DEFAULT_TAX_RULE_PROFILE_ID = "simple-always"
+
+export const createCustomProfile = (base: TaxRuleProfile): TaxRuleProfile => ({
+  ...base,
+  id: CUSTOM_PROFILE_ID,
+  name: "사용자 정의 시나리오",
+  version: "custom",
+  lossNetting: { ...base.lossNetting },
+})
+
+export const findTaxRuleProfile = (id: string, custom: TaxRuleProfile) =>
+  id === CUSTOM_PROFILE_ID
+    ? custom
+    : (TAX_RULE_PROFILES.find((profile) => profile.id === id) ?? TAX_RULE_PROFILES[0])
+
+export const totalTaxRate = (profile: TaxRuleProfile) => profile.nationalRate + profile.localRate
+
+export const isYearInEffect = (profile: TaxRuleProfile, year: string) =>
+  year >= profile.effectiveFrom.slice(0, 4) &&
+  (profile.effectiveTo === null || year <= profile.effectiveTo.slice(0, 4))
+
+export const formatRate = (rate: number) => `${Math.round(rate * 1000) / 10}%`
@@ -0,0 +1,159 @@
+import type { CostBasisResult, YearActivity } from "@/lib/cost-basis"
+import type { IncomeYear } from "@/lib/income"
+import { isYearInEffect, type TaxRuleProfile } from "@/lib/tax-rules"
+
+export interface TaxYearReport extends YearActivity {
+  /** 시행 기간 밖의 연도는 과세하지 않는다. */
+  inEffect: boolean
+  /** 수령 시 과세로 처리해 과세 대상 소득에 더한 수령 소득 */
+  income: number
+  /** 이전 연도에서 이월해 이 해 이익에서 뺀 결손금 */
+  carriedLossUsed: number
+  /** 손익 통산 규칙을 적용하고 수령 소득을 더한 뒤 이월결손금까지 뺀 과세 대상 소득 */
+  taxableGain: number
+  deduction: number
+  taxable: number
+  nationalTax: number
+  localTax: number
+  tax: number
+}
+
+const taxableGainOf = (result: CostBasisResult, activity: YearActivity, profile: TaxRuleProfile) => {
+  if (profile.lossNetting.netAcrossAssets) return activity.realizedGain
+  return result.assets.reduce((acc, asset) => {
+    const assetYear = asset.years.find((item) => item.year === activity.year)
+    return acc + Math.max(0, assetYear?.realizedGain ?? 0)
+  }, 0)
+}
+
+/** 과세연도에 생긴 결손금 하나와 이후 공제·소멸 내역 */
+export interface LossCarryForward {
+  year: string
+  loss: number
+  applied: { year: string; amount: number }[]
+  /** 공제 기한이 지나 사라진 금액 */
+  expired: number
+  remaining: number
+  /** 이 과세연도까지 공제할 수 있다. */
+  expiresAfter: string
+}
+
+// 과세연도를 오래된 순서로 돌며 통산한 손익이 음수면 결손금으로 쌓고, 이익이 나면 오래된 결손금부터 뺀다.
+// 결손금은 시행 기간 안에서만 생기고 쓰인다.
+const assessYears = (result: CostBasisResult, profile: TaxRuleProfile, incomeYears: IncomeYear[]) => {
+  const { carryForwardYears } = profile.lossNetting
+  const carryForwards: LossCarryForward[] = []
+
+  const reports = result.years.map((activity): TaxYearReport => {
+    const inEffect = isYearInEffect(profile, activity.year)
+    const income = incomeYears.find((item) => item.year === activity.year)?.taxable ?? 0
+    const netGain = taxableGainOf(result, activity, profile) + income
+    let carriedLossUsed = 0
+
+    if (inEffect && carryForwardYears > 0) {
+      for (const carry of carryForwards) {
+        if (carry.remaining <= 0) continue
+        if (carry.expiresAfter < activity.year) {
+          carry.expired += carry.remaining
+          carry.remaining = 0
+          continue
+        }
+        const amount = Math.min(carry.remaining, netGain - carriedLossUsed)
+        if (amount <= 0) continue
+        carry.applied.push({ year: activity.year, amount })
+        carry.remaining -= amount
+        carriedLossUsed += amount
+      }
+      if (netGain < 0) {
+        carryForwards.push({
+          year: activity.year,
+          loss: -netGain,
+          applied: [],
+          expired: 0,
+          remaining: -netGain,
+          expiresAfter: String(Number(activity.year) + carryForwardYears),
+        })
+      }
+    }
+
+    const taxableGain = netGain - carriedLossUsed
+    const deduction = inEffect ? Math.min(profile.deduction, Math.max(0, taxableGain)) : 0
+    const taxable = inEffect ? Math.max(0, taxableGain - profile.deduction) : 0
+    const nationalTax = taxable * profile.nationalRate
+    const localTax = taxable * profile.localRate
+
+    return {
+      ...activity,
+      inEffect,
+      income,
+      carriedLossUsed,
+      taxableGain,
+      deduction,
+      taxable,
+      nationalTax,
+      localTax,
+      tax: nationalTax + localTax,
+    }
+  })
+
+  return { reports, carryForwards }
+}
+
+/** 기본공제는 과세연도마다 한 번씩 적용된다. */
+export const computeTaxReports = (
+  result: CostBasisResult,
+  profile: TaxRuleProfile,
+  incomeYears: IncomeYear[] = []
+): TaxYearReport[] => assessYears(result, profile, incomeYears).reports
+
+/**
+ * 결손금 이월 공제 명세. 자산 간 통산을 하지 않으면 연간 손익이 음수가 되지 않아 결손금이 생기지 않는다.
+ */
+export const computeLossCarryForwards = (
+  result: CostBasisResult,
+  profile: TaxRuleProfile,
+  incomeYears: IncomeYear[] = []
+): LossCarryForward[] => assessYears(result, profile, incomeYears).carryForwards
+
+/** 그해에 아직 공제할 수 있는 이전 연도 결손금. 그해 이미 쓴 금액은 뺀다. */
+export const availableCarriedLoss = (carryForwards: LossCarryForward[], year: string) =>
+  carryForwards
+    .filter((carry) => carry.year < year && carry.expiresAfter >= year)
+    .reduce((acc, carry) => acc + carry.remaining, 0)
+
+/** 여러 과세연도를 합산한다. 연말 보유 원가는 마지막 해의 값을 쓴다. */
+export const sumTaxReports = (reports: TaxYearReport[]) =>
+  reports.reduce(
+    (acc, report) => ({
+      totalBuy: acc.totalBuy + report.totalBuy,
+      totalSell: acc.totalSell + report.totalSell,
+      totalFee: acc.totalFee + report.totalFee,
+      realizedGain: acc.realizedGain + report.realizedGain,
+      holdingAmount: report.holdingAmount,
+      holdingCost: report.holdingCost,
+      income: acc.income + report.income,
+      carriedLossUsed: acc.carriedLossUsed + report.carriedLossUsed,
+      taxableGain: acc.taxableGain + report.taxableGain,
+      deduction: acc.deduction + report.deduction,
+      taxable: acc.taxable + report.taxable,
+      nationalTax: acc.nationalTax + report.nationalTax,
+      localTax: acc.localTax + report.localTax,
+      tax: acc.tax + report.tax,
+    }),
+    {
+      totalBuy: 0,
+      totalSell: 0,
+      totalFee: 0,
+      realizedGain: 0,
+      holdingAmount: 0,
+      holdingCost: 0,
+      income: 0,
+      carriedLossUsed: 0,
+      taxableGain: 0,
+      deduction: 0,
+      taxable: 0,
+      nationalTax: 0,
+      localTax: 0,
+      tax: 0,
+    }
+  )
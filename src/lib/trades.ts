@@ -0,0 +1,104 @@
+export type TradeType =
+  | "buy"
+  | "sell"
+  | "withdrawalFee"
+  | "swap"
+  | "transferIn"
+  | "transferOut"
+  | "airdrop"
+  | "staking"
+  | "mining"
+  | "interest"
+
+/** 수수료를 결제 통화(quoteCurrency, 보통 원화)로 냈는지, 거래한 코인으로 냈는지 */
+export type FeeCurrency = "KRW" | "asset"
+
+export const TRADE_TYPE_LABELS: Record<TradeType, string> = {
+  buy: "Buy",
+  sell: "Sell",
+  withdrawalFee: "출금 수수료",
+  swap: "스왑",
+  transferIn: "이체 입금",
+  transferOut: "이체 출금",
+  airdrop: "에어드롭",
+  staking: "스테이킹 보상",
+  mining: "채굴",
+  interest: "이자",
+}
+
+export interface Trade {
+  id: string
+  date: string
+  asset: string
+  type: TradeType
+  /** 거래한 거래소나 지갑. 비어 있으면 미지정 계정이다. */
+  account: string
+  amount: number
+  price: number
+  fee: number
+  feeCurrency: FeeCurrency
+  /** 단가와 수수료의 통화. KRW가 아니면 환율표로 원화 환산한다. */
+  quoteCurrency: string
+  /** 스왑으로 받은 자산과 수량. 스왑이 아니면 비워 둔다. asset/amount는 보낸 쪽이다. */
+  acquiredAsset: string
+  acquiredAmount: number
+  acquiredAmountInput: string
+  /** 이체 입금/출금과 짝을 이루는 반대쪽 거래 id. 연결하지 않았으면 null */
+  transferLinkId: string | null
+  amountInput: string
+  priceInput: string
+  feeInput: string
+  /** CSV에서 가져온 거래의 중복 판별용 지문. 직접 입력한 거래는 null */
+  importFingerprint: string | null
+}
+
+/** 사용자 시간대 기준 오늘 날짜. toISOString은 UTC라 한국 시간 0~9시에는 어제 날짜가 나온다. */
+export const todayIsoDate = () => {
+  const now = new Date()
+  const pad = (value: number) => String(value).padStart(2, "0")
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`
+}
+
+export const createEmptyTrade = (): Trade => ({
+  id: crypto.randomUUID(),
+  date: todayIsoDate(),
+  asset: "",
+  type: "buy",
+  account: "",
+  amount: 0,
+  price: 0,
+  fee: 0,
+  feeCurrency: "KRW",
+  quoteCurrency: "KRW",
+  acquiredAsset: "",
+  acquiredAmount: 0,
+  acquiredAmountInput: "",
+  transferLinkId: null,
+  amountInput: "",
+  priceInput: "",
+  feeInput: "",
+  importFingerprint: null,
+})
+
+export const feeInKrw = (trade: Pick<Trade, "fee" | "feeCurrency" | "price">) =>
+  trade.feeCurrency === "asset" ? trade.fee * trade.price : trade.fee
+
+export const taxYearOf = (date: string) => date.slice(0, 4)
+
+export const UNKNOWN_ASSET_LABEL = "미지정"
+
+// "KRW-BTC", "BTC/KRW", " btc " 같은 표기를 "BTC"로 맞춘다
+export const normalizeAsset = (value: string | undefined) => {
+  const cleaned = (value || "").trim().toUpperCase()
+  if (!cleaned) return ""
+  if (cleaned.includes("-")) return cleaned.split("-").pop() ?? cleaned
+  if (cleaned.includes("/")) return cleaned.split("/")[0]
+  return cleaned
+}
+
+// 같은 날짜의 거래는 입력 순서를 유지한다
+export const sortTradesByDate = <T extends Pick<Trade, "date">>(trades: T[]): T[] =>
+  trades
+    .map((trade, index) => ({ trade, index }))
+    .sort((a, b) => a.trade.date.localeCompare(b.trade.date) || a.index - b.index)
+    .map(({ trade }) => trade)
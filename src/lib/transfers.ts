@@ -0,0 +1,145 @@
+import { normalizeAsset, sortTradesByDate, type Trade, type TradeType } from "@/lib/trades"
+
+// 자동 연결 때 출금 뒤 입금을 기다리는 기간과, 네트워크 수수료로 줄어들 수 있는 비율
+const LINK_WINDOW_DAYS = 3
+const MAX_NETWORK_FEE_RATIO = 0.05
+const EPSILON = 1e-9
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const isTransfer = (type: TradeType) => type === "transferIn" || type === "transferOut"
+
+/** 이체 출금에서 수수료로 나간 코인을 따로 뗀 거래의 id */
+export const transferFeeLegId = (withdrawalId: string) => `${withdrawalId}:network-fee`
+
+const daysBetween = (from: string, to: string) =>
+  (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS
+
+// 연결이 유효하지 않으면 사유를 돌려준다
+const checkLink = (trade: Trade, counterpart: Trade | undefined) => {
+  if (!counterpart || counterpart.transferLinkId !== trade.id) {
+    return "연결된 거래를 찾을 수 없습니다."
+  }
+  if (!isTransfer(counterpart.type) || counterpart.type === trade.type) {
+    return "이체 입금과 이체 출금끼리만 연결할 수 있습니다."
+  }
+  if (normalizeAsset(counterpart.asset) !== normalizeAsset(trade.asset)) {
+    return "연결된 거래와 자산이 다릅니다."
+  }
+  const [withdrawal, deposit] = trade.type === "transferOut" ? [trade, counterpart] : [counterpart, trade]
+  if (deposit.date < withdrawal.date) return "입금일이 출금일보다 빠릅니다."
+  if (deposit.amount > withdrawal.amount + EPSILON) return "받은 수량이 보낸 수량보다 많습니다."
+  return null
+}
+
+/**
+ * 이체 거래마다 연결 상태를 확인한다. 서로를 가리키는 입금/출금 쌍만 연결된 것으로 보고,
+ * 나머지는 거래 id별 사유와 함께 unmatched에 담는다.
+ */
+export const resolveTransfers = (trades: Trade[]) => {
+  const byId = new Map(trades.map((trade) => [trade.id, trade]))
+  const counterparts = new Map<string, Trade>()
+  const unmatched = new Map<string, string>()
+
+  for (const trade of trades) {
+    if (!isTransfer(trade.type)) continue
+    if (!trade.transferLinkId) {
+      unmatched.set(
+        trade.id,
+        trade.type === "transferOut" ? "연결된 이체 입금이 없습니다." : "연결된 이체 출금이 없습니다."
+      )
+      continue
+    }
+    const counterpart = byId.get(trade.transferLinkId)
+    const issue = checkLink(trade, counterpart)
+    if (issue || !counterpart) unmatched.set(trade.id, issue ?? "연결된 거래를 찾을 수 없습니다.")
+    else counterparts.set(trade.id, counterpart)
+  }
+
+  return { counterparts, unmatched }
+}
+
+/** 연결된 이체 출금마다 받은 수량이 보낸 수량보다 적은 만큼. 출금 id로 찾는다. */
+export const linkedTransferShortfalls = (trades: Trade[]) => {
+  const { counterparts } = resolveTransfers(trades)
+  const shortfalls = new Map<string, number>()
+  for (const trade of trades) {
+    const deposit = trade.type === "transferOut" ? counterparts.get(trade.id) : undefined
+    if (deposit) shortfalls.set(trade.id, Math.max(0, trade.amount - deposit.amount))
+  }
+  return shortfalls
+}
+
+/**
+ * 이체는 같은 사람의 지갑과 거래소 사이에서 코인을 옮길 뿐이라 로트와 취득가액을 그대로 둔다.
+ * 나간 수수료만 출금 수수료 거래로 추가한다. 연결된 쌍은 보낸 수량과 받은 수량의 차이와
+ * 코인으로 입력한 수수료 중 큰 쪽을 수수료로 본다(수수료가 차이에 이미 들어 있는 경우가 많다).
+ * 연결되지 않은 출금은 코인으로 입력한 수수료만 보낸 수량과 별도로 나간 것으로 본다.
+ */
+export const expandTransfers = (trades: Trade[]) => {
+  const shortfalls = linkedTransferShortfalls(trades)
+
+  return trades.flatMap((trade): Trade[] => {
+    const coinFee = trade.type === "transferOut" && trade.feeCurrency === "asset" ? trade.fee : 0
+    const networkFee = Math.max(shortfalls.get(trade.id) ?? 0, coinFee)
+    if (networkFee <= EPSILON) return [trade]
+
+    return [
+      trade,
+      {
+        ...trade,
+        id: transferFeeLegId(trade.id),
+        type: "withdrawalFee",
+        amount: networkFee,
+        amountInput: String(networkFee),
+        price: 0,
+        priceInput: "",
+        fee: 0,
+        feeInput: "",
+        transferLinkId: null,
+      },
+    ]
+  })
+}
+
+/** 두 이체를 서로 연결한다. 어느 쪽이든 기존 연결이 있으면 먼저 끊는다. counterpartId가 null이면 연결만 끊는다. */
+export const linkTransfer = (trades: Trade[], id: string, counterpartId: string | null) => {
+  const touched = new Set([id, counterpartId])
+  return trades.map((trade) => {
+    if (trade.id === id) return { ...trade, transferLinkId: counterpartId }
+    if (trade.id === counterpartId) return { ...trade, transferLinkId: id }
+    if (trade.transferLinkId && touched.has(trade.transferLinkId)) {
+      return { ...trade, transferLinkId: null }
+    }
+    return trade
+  })
+}
+
+/**
+ * 연결되지 않은 이체 출금마다 같은 자산의 이체 입금 중 며칠 안에 들어왔고
+ * 수량이 수수료만큼만 줄어든 가장 이른 것을 짝으로 고른다.
+ */
+export const suggestTransferLinks = (trades: Trade[]) => {
+  const { unmatched } = resolveTransfers(trades)
+  const open = sortTradesByDate(trades.filter((trade) => unmatched.has(trade.id)))
+  const used = new Set<string>()
+  const links: [string, string][] = []
+
+  for (const withdrawal of open) {
+    if (withdrawal.type !== "transferOut" || withdrawal.amount <= 0) continue
+    const deposit = open.find(
+      (candidate) =>
+        candidate.type === "transferIn" &&
+        !used.has(candidate.id) &&
+        normalizeAsset(candidate.asset) === normalizeAsset(withdrawal.asset) &&
+        daysBetween(withdrawal.date, candidate.date) >= 0 &&
+        daysBetween(withdrawal.date, candidate.date) <= LINK_WINDOW_DAYS &&
+        candidate.amount <= withdrawal.amount + EPSILON &&
+        candidate.amount >= withdrawal.amount * (1 - MAX_NETWORK_FEE_RATIO)
+    )
+    if (!deposit) continue
+    used.add(deposit.id)
+    links.push([withdrawal.id, deposit.id])
+  }
+
+  return links
+}
@@ -0,0 +1,255 @@
+import { accountLabel, type AccountOversell } from "@/lib/accounts"
+import type { CostBasisResult } from "@/lib/cost-basis"
+import { staleRateAge, type RateLookup } from "@/lib/exchange-rates"
+import { formatCurrency } from "@/lib/format"
+import { isIncome, type IncomeValuation } from "@/lib/income"
+import type { MarketPriceLookup, PriceDeviation } from "@/lib/price-history"
+import { valueSwap } from "@/lib/swaps"
+import { isTransfer } from "@/lib/transfers"
+import { normalizeAsset, sortTradesByDate, type Trade } from "@/lib/trades"
+
+export type ValidationIssueKind =
+  | "oversell"
+  | "accountOversell"
+  | "invalidValue"
+  | "missingPrice"
+  | "futureDate"
+  | "duplicate"
+  | "priceOutlier"
+  | "staleRate"
+
+/** error는 계산 결과를 믿을 수 없게 만드는 문제, warning은 확인이 필요한 문제 */
+export type ValidationSeverity = "error" | "warning"
+
+export interface ValidationIssue {
+  tradeId: string
+  date: string
+  asset: string
+  kind: ValidationIssueKind
+  severity: ValidationSeverity
+  message: string
+}
+
+export const VALIDATION_ISSUE_LABELS: Record<ValidationIssueKind, string> = {
+  oversell: "보유량 초과 매도",
+  accountOversell: "계정 보유량 초과",
+  invalidValue: "잘못된 값",
+  missingPrice: "가격 없음",
+  futureDate: "미래 날짜",
+  duplicate: "중복 의심",
+  priceOutlier: "가격 이상치",
+  staleRate: "오래된 환율",
+}
+
+export interface ValidationInput {
+  /** 원화로 환산한 거래. id는 입력한 거래와 같다. */
+  trades: Trade[]
+  conversions: Map<string, RateLookup>
+  result: CostBasisResult
+  accountOversells: Map<string, AccountOversell>
+  priceDeviations: Map<string, PriceDeviation>
+  incomeValuations: Map<string, IncomeValuation>
+  marketPrice?: MarketPriceLookup
+  today: string
+}
+
+const EPSILON = 1e-9
+// 같은 자산의 다른 거래 단가 중앙값에서 이 배수 넘게 벗어나면 이상치로 본다
+const OUTLIER_FACTOR = 10
+const OUTLIER_MIN_SAMPLES = 3
+
+const formatAmount = (value: number) => value.toLocaleString("ko-KR", { maximumFractionDigits: 8 })
+
+// 엔진이 펼친 거래(스왑 취득분, 이체 수수료)의 id를 화면의 거래 id로 되돌린다
+const sourceTradeId = (id: string) => id.split(":")[0]
+
+// 새로 추가만 하고 아무것도 적지 않은 행
+const isBlankTrade = (trade: Trade) =>
+  !trade.asset.trim() && trade.amount === 0 && trade.price === 0 && trade.fee === 0
+
+const duplicateKey = (trade: Trade) =>
+  [
+    trade.date,
+    normalizeAsset(trade.asset),
+    trade.type,
+    trade.account.trim(),
+    trade.amount,
+    trade.price,
+    trade.fee,
+    trade.acquiredAsset,
+    trade.acquiredAmount,
+  ].join("\u0000")
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+// 원화 단가를 정하지 못한 거래. 이체와 출금 수수료는 단가 없이 계산하므로 보지 않는다.
+const findMissingPrice = (
+  trade: Trade,
+  input: ValidationInput
+): { severity: ValidationSeverity; message: string } | null => {
+  if (isTransfer(trade.type) || trade.type === "withdrawalFee") return null
+  if (input.conversions.get(trade.id)?.source === "missing") {
+    return {
+      severity: "error",
+      message: `${trade.quoteCurrency} 환율이 없어 원화 단가를 계산하지 못했습니다.`,
+    }
+  }
+  if (trade.type === "swap") {
+    return valueSwap(trade, input.marketPrice).source === "missing"
+      ? { severity: "error", message: "단가가 없고 두 자산의 당일 시세도 없어 평가하지 못했습니다." }
+      : null
+  }
+  if (isIncome(trade.type)) {
+    return input.incomeValuations.get(trade.id)?.source === "missing"
+      ? { severity: "warning", message: "단가가 없고 당일 시세도 없어 수령 시가를 0원으로 계산했습니다." }
+      : null
+  }
+  return trade.price === 0 ? { severity: "error", message: "단가가 0이거나 비어 있습니다." } : null
+}
+
+/**
+ * 계산 전에 거래 목록에서 불가능하거나 의심스러운 기록을 찾는다.
+ * 보유량보다 많이 판 매도, 가격이 없거나 음수인 값, 미래 날짜는 세액을 믿을 수 없게 하므로 error로 본다.
+ */
+export const validateTrades = (input: ValidationInput): ValidationIssue[] => {
+  const trades = new Map(input.trades.map((trade) => [trade.id, trade]))
+  const issues: ValidationIssue[] = []
+  const add = (
+    trade: Trade,
+    kind: ValidationIssueKind,
+    severity: ValidationSeverity,
+    message: string
+  ) =>
+    issues.push({
+      tradeId: trade.id,
+      date: trade.date,
+      asset: normalizeAsset(trade.asset),
+      kind,
+      severity,
+      message,
+    })
+
+  for (const sale of input.result.sales) {
+    const trade = trades.get(sourceTradeId(sale.tradeId))
+    if (!trade || sale.unmatchedAmount <= EPSILON) continue
+    add(
+      trade,
+      "oversell",
+      "error",
+      `그때까지 보유한 ${sale.asset}보다 ${formatAmount(sale.unmatchedAmount)}개 더 팔았습니다. 취득가액 0으로 계산됩니다.`
+    )
+  }
+
+  for (const oversell of input.accountOversells.values()) {
+    const trade = trades.get(sourceTradeId(oversell.tradeId))
+    if (!trade) continue
+    add(
+      trade,
+      "accountOversell",
+      "warning",
+      `${accountLabel(oversell.account)} 보유량보다 ${formatAmount(oversell.shortfall)} ${oversell.asset} 더 내보냈습니다.`
+    )
+  }
+
+  const duplicates = new Map<string, number>()
+  for (const trade of sortTradesByDate(input.trades)) {
+    if (isBlankTrade(trade)) continue
+
+    if (!trade.date) {
+      add(trade, "invalidValue", "error", "날짜가 비어 있습니다.")
+    } else if (trade.date > input.today) {
+      add(trade, "futureDate", "error", `오늘(${input.today}) 이후 날짜입니다.`)
+    }
+
+    if (trade.amount <= 0) {
+      add(trade, "invalidValue", "warning", "수량이 0 이하라 계산에서 빠집니다.")
+      continue
+    }
+    if (trade.price < 0 || trade.fee < 0) {
+      add(trade, "invalidValue", "error", "단가나 수수료가 음수입니다.")
+    }
+
+    // 이체는 로트를 옮기기만 하므로 결제 통화로 낸 출금 수수료는 손익 계산에 들어갈 곳이 없다
+    if (trade.type === "transferOut" && trade.feeCurrency === "KRW" && trade.fee > 0) {
+      add(
+        trade,
+        "invalidValue",
+        "error",
+        "출금 수수료는 결제 통화로 계산할 수 없습니다. 수수료로 나간 코인 수량을 코인 단위로 입력하세요."
+      )
+    }
+
+    const missingPrice = findMissingPrice(trade, input)
+    if (missingPrice) add(trade, "missingPrice", missingPrice.severity, missingPrice.message)
+
+    const conversion = input.conversions.get(trade.id)
+    const rateAge = conversion && !isTransfer(trade.type) ? staleRateAge(conversion, trade.date) : null
+    if (conversion && rateAge !== null) {
+      add(
+        trade,
+        "staleRate",
+        "warning",
+        `환율표의 ${conversion.date} ${trade.quoteCurrency} 환율(거래일보다 ${rateAge}일 전)로 환산했습니다.`
+      )
+    }
+
+    const key = duplicateKey(trade)
+    const count = (duplicates.get(key) ?? 0) + 1
+    duplicates.set(key, count)
+    if (count > 1) {
+      add(trade, "duplicate", "warning", "날짜·자산·수량·단가가 모두 같은 거래가 앞에 있습니다.")
+    }
+  }
+
+  for (const [tradeId, deviation] of input.priceDeviations) {
+    const trade = trades.get(tradeId)
+    if (!trade) continue
+    add(
+      trade,
+      "priceOutlier",
+      "warning",
+      `당일 시세 대비 ${deviation.ratio > 0 ? "+" : ""}${Math.round(deviation.ratio * 100)}% (종가 ${formatCurrency(deviation.market.close)}원)`
+    )
+  }
+
+  // 시세 파일로 확인하지 못한 거래는 같은 자산의 거래 단가 중앙값과 견준다
+  const pricesByAsset = new Map<string, Trade[]>()
+  for (const trade of input.trades) {
+    if ((trade.type !== "buy" && trade.type !== "sell") || trade.price <= 0 || trade.amount <= 0) continue
+    const asset = normalizeAsset(trade.asset)
+    const group = pricesByAsset.get(asset)
+    if (group) group.push(trade)
+    else pricesByAsset.set(asset, [trade])
+  }
+  for (const group of pricesByAsset.values()) {
+    if (group.length < OUTLIER_MIN_SAMPLES) continue
+    const typical = median(group.map((trade) => trade.price))
+    for (const trade of group) {
+      if (input.priceDeviations.has(trade.id)) continue
+      const ratio = trade.price / typical
+      if (ratio > OUTLIER_FACTOR || ratio < 1 / OUTLIER_FACTOR) {
+        add(
+          trade,
+          "priceOutlier",
+          "warning",
+          `같은 자산의 거래 단가 중앙값(${formatCurrency(typical)}원)과 ${ratio > 1 ? Math.round(ratio) : `1/${Math.round(1 / ratio)}`}배 차이 납니다.`
+        )
+      }
+    }
+  }
+
+  return issues.sort((a, b) => a.date.localeCompare(b.date))
+}
+
+/** 거래 id별로 문제를 모은다. */
+export const groupIssuesByTrade = (issues: ValidationIssue[]) => {
+  const grouped = new Map<string, ValidationIssue[]>()
+  for (const issue of issues) {
+    grouped.set(issue.tradeId, [...(grouped.get(issue.tradeId) ?? []), issue])
+  }
+  return grouped
+}
@@ -0,0 +1,82 @@
+import {
+  DEFAULT_COST_BASIS_METHOD,
+  type CostBasisMethod,
+  type LotSelections,
+} from "@/lib/cost-basis"
+import type { ExchangeRate } from "@/lib/exchange-rates"
+import { DEFAULT_INCOME_TREATMENTS, type IncomeTreatments } from "@/lib/income"
+import type { OpeningBalance } from "@/lib/opening-balances"
+import {
+  createCustomProfile,
+  DEFAULT_TAX_RULE_PROFILE_ID,
+  TAX_RULE_PROFILES,
+  type TaxRuleProfile,
+} from "@/lib/tax-rules"
+import { createEmptyTrade, type Trade } from "@/lib/trades"
+
+export interface WorkspaceSettings {
+  costBasisMethod: CostBasisMethod
+  lotSelections: LotSelections
+  /** null이면 가장 최근 과세연도를 보여준다. */
+  taxYear: string | null
+  taxProfileId: string
+  customProfile: TaxRuleProfile
+  /** 에어드롭·스테이킹 등 수령 소득 범주별 과세 처리 */
+  incomeTreatments: IncomeTreatments
+}
+
+export interface ImportHistoryEntry {
+  id: string
+  fileName: string
+  formatLabel: string
+  importedAt: string
+  added: number
+  duplicates: number
+  rejected: number
+}
+
+export interface WorkspaceContent {
+  trades: Trade[]
+  openingBalances: OpeningBalance[]
+  /** 사용자가 올린 원화 환율표 */
+  exchangeRates: ExchangeRate[]
+  settings: WorkspaceSettings
+  importHistory: ImportHistoryEntry[]
+}
+
+export interface WorkspaceData extends WorkspaceContent {
+  id: string
+  name: string
+  updatedAt: string
+}
+
+export type WorkspaceSummary = Pick<WorkspaceData, "id" | "name" | "updatedAt">
+
+export const DEFAULT_WORKSPACE_NAME = "기본 작업공간"
+
+export const createDefaultSettings = (): WorkspaceSettings => ({
+  costBasisMethod: DEFAULT_COST_BASIS_METHOD,
+  lotSelections: {},
+  taxYear: null,
+  taxProfileId: DEFAULT_TAX_RULE_PROFILE_ID,
+  customProfile: createCustomProfile(TAX_RULE_PROFILES[0]),
+  incomeTreatments: { ...DEFAULT_INCOME_TREATMENTS },
+})
+
+export const createWorkspaceContent = (): WorkspaceContent => ({
+  trades: [createEmptyTrade()],
+  openingBalances: [],
+  exchangeRates: [],
+  settings: createDefaultSettings(),
+  importHistory: [],
+})
+
+export const createWorkspace = (
+  name: string,
+  content: WorkspaceContent = createWorkspaceContent()
+): WorkspaceData => ({
+  ...content,
+  id: crypto.randomUUID(),
+  name,
+  updatedAt: new Date().toISOString(),
+})